@@ -0,0 +1,82 @@
+/**
+ * hydrogen-wishlist availability tests
+ */
+
+import { beforeEach, describe, it, expect } from 'vitest';
+
+import { createMemoryStorageAdapter, createScopedStorageAdapter } from '../utils/adapters.js';
+import { isPurchasable, recordAvailability } from '../utils/availability.js';
+import { STORAGE_KEYS } from '../utils/constants.js';
+import { makeItem } from './fixtures.js';
+
+import type { LiveProductData, WishlistStorageAdapter } from '../types.js';
+
+const live = (availableForSale: boolean): LiveProductData => ({
+  productTitle: 'Product A',
+  productHandle: 'product-a',
+  availableForSale,
+});
+
+// ---------------------------------------------------------------------------
+// isPurchasable
+// ---------------------------------------------------------------------------
+
+describe('isPurchasable', () => {
+  it('is false for sold-out and deleted items', () => {
+    expect(isPurchasable({ ...makeItem(), availableForSale: false })).toBe(false);
+    expect(isPurchasable({ ...makeItem(), isDeleted: true })).toBe(false);
+  });
+
+  it('is true for available items and items without live data', () => {
+    expect(isPurchasable({ ...makeItem(), availableForSale: true })).toBe(true);
+    expect(isPurchasable(makeItem())).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// recordAvailability
+// ---------------------------------------------------------------------------
+
+describe('recordAvailability', () => {
+  let storage: WishlistStorageAdapter;
+
+  beforeEach(() => {
+    storage = createMemoryStorageAdapter();
+  });
+
+  it('reports items that were sold out and are purchasable again', async () => {
+    expect(await recordAvailability({ v1: live(false), v2: live(true) }, storage)).toEqual([]);
+    expect(await recordAvailability({ v1: live(true), v2: live(true) }, storage)).toEqual(['v1']);
+    expect(await recordAvailability({ v1: live(true) }, storage)).toEqual([]);
+  });
+
+  it('does not report items seen for the first time', async () => {
+    expect(await recordAvailability({ v1: live(true) }, storage)).toEqual([]);
+    expect(JSON.parse((await storage.getItem(STORAGE_KEYS.availability)) ?? '{}')).toEqual({
+      v1: true,
+    });
+  });
+
+  it('treats deleted products as unavailable', async () => {
+    await recordAvailability({ p1: null }, storage);
+    expect(await recordAvailability({ p1: live(true) }, storage)).toEqual(['p1']);
+  });
+
+  it('drops entries for items no longer in the wishlist', async () => {
+    await recordAvailability({ v1: live(false), v2: live(false) }, storage);
+    await recordAvailability({ v1: live(false) }, storage, ['v1']);
+
+    expect(JSON.parse((await storage.getItem(STORAGE_KEYS.availability)) ?? '{}')).toEqual({
+      v1: false,
+    });
+  });
+
+  it('keeps shops sharing a storage apart', async () => {
+    const shopA = createScopedStorageAdapter(storage, { shopDomain: 'a.myshopify.com' });
+    const shopB = createScopedStorageAdapter(storage, { shopDomain: 'b.myshopify.com' });
+
+    await recordAvailability({ v1: live(false) }, shopA);
+
+    expect(await recordAvailability({ v1: live(true) }, shopB)).toEqual([]);
+  });
+});
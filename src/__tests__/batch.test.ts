@@ -0,0 +1,108 @@
+/**
+ * hydrogen-wishlist update batching tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+import { collapseOperations, createUpdateBatcher } from '../utils/batch.js';
+
+import type { WishlistOperation } from '../types.js';
+
+const add = (productId: string): WishlistOperation => ({
+  action: 'add',
+  item: { productId, productTitle: productId, addedAt: '2024-01-15T12:00:00Z' },
+});
+
+const remove = (productId: string): WishlistOperation => ({
+  action: 'remove',
+  item: { productId },
+});
+
+// ---------------------------------------------------------------------------
+// collapseOperations
+// ---------------------------------------------------------------------------
+
+describe('collapseOperations', () => {
+  it('keeps the latest operation per item in order', () => {
+    const result = collapseOperations([add('p1'), add('p2'), remove('p1')]);
+    expect(result).toEqual([add('p2'), remove('p1')]);
+  });
+
+  it('treats variants as separate items', () => {
+    const result = collapseOperations([
+      { action: 'add', item: { productId: 'p1', variantId: 'v1' } },
+      { action: 'add', item: { productId: 'p1', variantId: 'v2' } },
+    ]);
+    expect(result).toHaveLength(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createUpdateBatcher
+// ---------------------------------------------------------------------------
+
+describe('createUpdateBatcher', () => {
+  it('sends operations within the window as one batch', async () => {
+    const send = vi.fn().mockResolvedValue({ success: true, items: [] });
+    const batcher = createUpdateBatcher(send, 5);
+
+    const results = await Promise.all([
+      batcher.enqueue(add('p1')),
+      batcher.enqueue(add('p2')),
+      batcher.enqueue(add('p3')),
+    ]);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith([add('p1'), add('p2'), add('p3')]);
+    expect(results.every((r) => r.success)).toBe(true);
+    expect(batcher.pending).toBe(0);
+  });
+
+  it('rejects every operation in a failed batch', async () => {
+    const batcher = createUpdateBatcher(vi.fn().mockRejectedValue(new Error('down')), 5);
+
+    const results = await Promise.allSettled([
+      batcher.enqueue(add('p1')),
+      batcher.enqueue(add('p2')),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('sends immediately on flush', async () => {
+    const send = vi.fn().mockResolvedValue({ success: true });
+    const batcher = createUpdateBatcher(send, 10000);
+
+    const result = batcher.enqueue(add('p1'));
+    await batcher.flush();
+
+    await expect(result).resolves.toEqual({ success: true });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends batches one at a time', async () => {
+    const order: string[] = [];
+    let releaseFirst: () => void = () => {};
+    const send = vi.fn(async (operations: WishlistOperation[]) => {
+      const id = operations[0]?.item.productId ?? '';
+      order.push(`start:${id}`);
+      if (id === 'p1') {
+        await new Promise<void>((resolve) => {
+          releaseFirst = resolve;
+        });
+      }
+      order.push(`end:${id}`);
+      return { success: true };
+    });
+    const batcher = createUpdateBatcher(send, 0);
+
+    const first = batcher.enqueue(add('p1'));
+    batcher.flush();
+    const second = batcher.enqueue(add('p2'));
+    batcher.flush();
+    setTimeout(() => releaseFirst(), 5);
+
+    await Promise.all([first, second]);
+    expect(order).toEqual(['start:p1', 'end:p1', 'start:p2', 'end:p2']);
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * hydrogen-wishlist WishBridge client tests
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+
+import { WishBridgeClient } from '../utils/client.js';
+import { DEFAULT_ERROR_MESSAGES } from '../utils/constants.js';
+import { WishBridgeError } from '../utils/errors.js';
+
+import type { WishBridgeConfig } from '../types.js';
+
+const config: WishBridgeConfig = {
+  apiUrl: 'https://wishbridge.test',
+  apiKey: 'wb_test_key',
+  shopDomain: 'my-store.myshopify.com',
+  customerId: 'gid://shopify/Customer/1',
+  retry: false,
+};
+
+const jsonResponse = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// isEnabled
+// ---------------------------------------------------------------------------
+
+describe('WishBridgeClient.isEnabled', () => {
+  it('is true with a customer and API key', () => {
+    expect(new WishBridgeClient(config).isEnabled).toBe(true);
+  });
+
+  it('is false without a customer', () => {
+    expect(
+      new WishBridgeClient({ ...config, customerId: undefined }).isEnabled,
+    ).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// requests
+// ---------------------------------------------------------------------------
+
+describe('WishBridgeClient requests', () => {
+  it('posts to the endpoint with auth, customer and shop', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ success: true, items: [] }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await new WishBridgeClient(config).sync({ guestItems: [] });
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://wishbridge.test/api/v1/sync');
+    expect(init.method).toBe('POST');
+    expect((init.headers as Record<string, string>)['Authorization']).toBe(
+      'Bearer wb_test_key',
+    );
+    expect(JSON.parse(init.body as string)).toEqual({
+      guestItems: [],
+      customerId: 'gid://shopify/Customer/1',
+      shop: 'my-store.myshopify.com',
+    });
+  });
+
+  it('returns the parsed response body', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        jsonResponse({ success: true, token: 'abc', url: 'https://x/abc' }),
+      ),
+    );
+
+    const result = await new WishBridgeClient(config).share({ expiresInDays: 7 });
+    expect(result.token).toBe('abc');
+  });
+
+  it('throws rate_limited on 429', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({}, 429)));
+
+    await expect(
+      new WishBridgeClient(config).update({
+        action: 'remove',
+        item: { productId: 'p1' },
+      }),
+    ).rejects.toMatchObject({
+      code: 'rate_limited',
+      status: 429,
+      message: DEFAULT_ERROR_MESSAGES.rateLimited,
+    });
+  });
+
+  it('throws request_failed with the backend error message', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(jsonResponse({ success: false, error: 'Nope' }, 400)),
+    );
+
+    await expect(
+      new WishBridgeClient(config).event({ event: 'view', productId: 'p1' }),
+    ).rejects.toMatchObject({ code: 'request_failed', status: 400, message: 'Nope' });
+  });
+
+  it('throws network when fetch rejects', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('offline')));
+
+    const error = await new WishBridgeClient(config)
+      .sync({ guestItems: [] })
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(WishBridgeError);
+    expect((error as WishBridgeError).code).toBe('network');
+  });
+
+  it('aborts and throws timeout after the timeout elapses', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          }),
+      ),
+    );
+
+    await expect(
+      new WishBridgeClient(config).sync({ guestItems: [] }, { timeoutMs: 10 }),
+    ).rejects.toMatchObject({ code: 'timeout' });
+  });
+
+  it('does not send requests whose signal is already aborted', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ success: true, items: [] }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(
+      new WishBridgeClient(config).sync({ guestItems: [] }, { signal: AbortSignal.abort() }),
+    ).rejects.toMatchObject({ code: 'network' });
+    await expect(
+      new WishBridgeClient({
+        ...config,
+        interceptors: {
+          request: [
+            (request) => ({ ...request, init: { ...request.init, signal: AbortSignal.abort() } }),
+          ],
+        },
+      }).sync({ guestItems: [] }),
+    ).rejects.toMatchObject({ code: 'network' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('times out when the response body stalls', async () => {
+    const stalled = new Response(new ReadableStream({ start() {} }), { status: 200 });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(stalled));
+
+    await expect(
+      new WishBridgeClient(config).sync({ guestItems: [] }, { timeoutMs: 10 }),
+    ).rejects.toMatchObject({ code: 'timeout' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// retries
+// ---------------------------------------------------------------------------
+
+describe('WishBridgeClient retries', () => {
+  const retryConfig: WishBridgeConfig = {
+    ...config,
+    retry: { maxAttempts: 3, baseDelayMs: 1, jitter: 'none' },
+  };
+
+  it('retries 5xx responses until success', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ success: false }, 503))
+      .mockResolvedValueOnce(jsonResponse({ success: true, items: [] }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await new WishBridgeClient(retryConfig).update({
+      action: 'add',
+      item: { productId: 'p1' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry 4xx responses', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(jsonResponse({ success: false, error: 'Bad' }, 400));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(
+      new WishBridgeClient(retryConfig).sync({ guestItems: [] }),
+    ).rejects.toMatchObject({ code: 'request_failed' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError('offline'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(
+      new WishBridgeClient(retryConfig).sync({ guestItems: [] }),
+    ).rejects.toMatchObject({ code: 'network' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports retry state and clears it when settled', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValueOnce(
+          new Response('{}', { status: 429, headers: { 'Retry-After': '0' } }),
+        )
+        .mockResolvedValueOnce(jsonResponse({ success: true })),
+    );
+    const onRetryStateChange = vi.fn();
+
+    await new WishBridgeClient(retryConfig, { onRetryStateChange }).event({
+      event: 'add',
+      productId: 'p1',
+    });
+
+    expect(onRetryStateChange).toHaveBeenNthCalledWith(1, {
+      endpoint: 'event',
+      attempt: 1,
+      maxAttempts: 3,
+      delayMs: 0,
+      error: DEFAULT_ERROR_MESSAGES.rateLimited,
+    });
+    expect(onRetryStateChange).toHaveBeenLastCalledWith(undefined);
+  });
+
+  it('gives up when Retry-After exceeds maxDelayMs', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(
+        new Response('{}', { status: 429, headers: { 'Retry-After': '120' } }),
+      );
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(
+      new WishBridgeClient(retryConfig).sync({ guestItems: [] }),
+    ).rejects.toMatchObject({ code: 'rate_limited', retryAfterMs: 120000 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// transport
+// ---------------------------------------------------------------------------
+
+describe('WishBridgeClient transport', () => {
+  it('uses the configured fetch instead of the global', async () => {
+    const globalFetch = vi.fn();
+    vi.stubGlobal('fetch', globalFetch);
+    const customFetch = vi.fn().mockResolvedValue(jsonResponse({ success: true }));
+
+    await new WishBridgeClient({ ...config, fetch: customFetch }).event({
+      event: 'view',
+      productId: 'p1',
+    });
+
+    expect(customFetch).toHaveBeenCalledTimes(1);
+    expect(globalFetch).not.toHaveBeenCalled();
+  });
+
+  it('runs request interceptors in order', async () => {
+    const customFetch = vi.fn().mockResolvedValue(jsonResponse({ success: true }));
+
+    await new WishBridgeClient({
+      ...config,
+      fetch: customFetch,
+      interceptors: {
+        request: [
+          (request) => ({
+            ...request,
+            init: {
+              ...request.init,
+              headers: { ...request.init.headers, 'X-Correlation-Id': 'abc' },
+            },
+          }),
+          (request) => ({ ...request, url: request.url.replace('wishbridge.test', 'proxy.test') }),
+        ],
+      },
+    }).sync({ guestItems: [] });
+
+    const [url, init] = customFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://proxy.test/api/v1/sync');
+    expect((init.headers as Record<string, string>)['X-Correlation-Id']).toBe('abc');
+  });
+
+  it('keeps the timeout when an interceptor replaces init', async () => {
+    const customFetch = vi.fn(
+      (_url: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        }),
+    );
+
+    await expect(
+      new WishBridgeClient({
+        ...config,
+        fetch: customFetch,
+        interceptors: {
+          request: [(request) => ({ ...request, init: { method: 'POST', headers: {}, body: '{}' } })],
+        },
+      }).sync({ guestItems: [] }, { timeoutMs: 10 }),
+    ).rejects.toMatchObject({ code: 'timeout' });
+  });
+
+  it('lets response interceptors replace the response', async () => {
+    const customFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ success: false }, 401))
+      .mockResolvedValueOnce(jsonResponse({ success: true, items: [] }));
+
+    const result = await new WishBridgeClient({
+      ...config,
+      fetch: customFetch,
+      interceptors: {
+        response: [
+          (response, request) =>
+            response.status === 401
+              ? customFetch(request.url, {
+                  ...request.init,
+                  headers: { ...request.init.headers, Authorization: 'Bearer refreshed' },
+                })
+              : response,
+        ],
+      },
+    }).sync({ guestItems: [] });
+
+    expect(result.success).toBe(true);
+    const [, retryInit] = customFetch.mock.calls[1] as [string, RequestInit];
+    expect((retryInit.headers as Record<string, string>)['Authorization']).toBe(
+      'Bearer refreshed',
+    );
+  });
+});
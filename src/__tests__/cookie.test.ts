@@ -0,0 +1,157 @@
+/**
+ * hydrogen-wishlist guest cookie tests
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+
+import {
+  createCookieStorageAdapter,
+  createMemoryStorageAdapter,
+  createScopedStorageAdapter,
+} from '../utils/adapters.js';
+import { GUEST_COOKIE_NAME, PLACEHOLDER_PRODUCT_TITLE } from '../utils/constants.js';
+import { decodeWishlistCookie, encodeWishlistCookie, readCookie } from '../utils/cookie.js';
+import { addStoredItem, clearStoredItems, getStoredItems } from '../utils/storage.js';
+import { makeItem } from './fixtures.js';
+
+// ---------------------------------------------------------------------------
+// encodeWishlistCookie / decodeWishlistCookie
+// ---------------------------------------------------------------------------
+
+describe('wishlist cookie encoding', () => {
+  it('round-trips product and variant keys with placeholder titles', () => {
+    const items = [
+      makeItem({ productId: 'gid://shopify/Product/7982301184', variantId: 'gid://shopify/ProductVariant/44012345678' }),
+      makeItem({ productId: 'gid://shopify/Product/2' }),
+    ];
+
+    const value = encodeWishlistCookie(items);
+
+    expect(value).toMatch(/^1:[0-9a-z.-]+$/);
+    expect(decodeWishlistCookie(value)).toEqual([
+      {
+        productId: 'gid://shopify/Product/7982301184',
+        variantId: 'gid://shopify/ProductVariant/44012345678',
+        productTitle: PLACEHOLDER_PRODUCT_TITLE,
+        addedAt: '2024-01-15T12:00:00.000Z',
+      },
+      {
+        productId: 'gid://shopify/Product/2',
+        productTitle: PLACEHOLDER_PRODUCT_TITLE,
+        addedAt: '2024-01-15T12:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('skips items without numeric Shopify IDs', () => {
+    const value = encodeWishlistCookie([makeItem({ productId: 'custom-1' }), makeItem()]);
+
+    expect(decodeWishlistCookie(value).map((item) => item.productId)).toEqual([
+      'gid://shopify/Product/1',
+    ]);
+  });
+
+  it('keeps the newest items that fit, in list order', () => {
+    const items = Array.from({ length: 10 }, (_, index) =>
+      makeItem({
+        productId: `gid://shopify/Product/${index + 1}`,
+        addedAt: new Date(Date.UTC(2024, 0, index + 1)).toISOString(),
+      }),
+    );
+
+    const value = encodeWishlistCookie(items, 40);
+
+    expect(value.length).toBeLessThanOrEqual(40);
+    expect(decodeWishlistCookie(value).map((item) => item.productId)).toEqual(
+      ['8', '9', '10'].map((id) => `gid://shopify/Product/${id}`),
+    );
+  });
+
+  it('decodes unknown formats to an empty list', () => {
+    expect(decodeWishlistCookie(undefined)).toEqual([]);
+    expect(decodeWishlistCookie('2:abc..1')).toEqual([]);
+    expect(decodeWishlistCookie('1:')).toEqual([]);
+    expect(decodeWishlistCookie('1:!!..1-1..1')).toHaveLength(1);
+  });
+});
+
+describe('readCookie', () => {
+  it('finds and decodes a cookie by name', () => {
+    expect(readCookie('a=1; wishbridge_guest=1%3Aabc; b=2')).toBe('1:abc');
+    expect(readCookie('a=1', 'a')).toBe('1');
+    expect(readCookie(null)).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createCookieStorageAdapter
+// ---------------------------------------------------------------------------
+
+describe('createCookieStorageAdapter', () => {
+  let cookies: Map<string, string>;
+
+  beforeEach(() => {
+    cookies = new Map();
+    vi.stubGlobal('document', {
+      get cookie() {
+        return [...cookies].map(([name, value]) => `${name}=${value}`).join('; ');
+      },
+      set cookie(value: string) {
+        const [pair = '', ...attributes] = value.split('; ');
+        const [name = '', cookieValue = ''] = pair.split('=');
+        if (attributes.includes('Max-Age=0')) {
+          cookies.delete(name);
+        } else {
+          cookies.set(name, cookieValue);
+        }
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('mirrors keys into the cookie and keeps full items in the wrapped adapter', async () => {
+    const adapter = createCookieStorageAdapter({ storage: createMemoryStorageAdapter() });
+
+    await addStoredItem(makeItem(), adapter);
+
+    expect(decodeWishlistCookie(readCookie(document.cookie))).toHaveLength(1);
+    expect(await getStoredItems(adapter)).toEqual([makeItem()]);
+  });
+
+  it('restores items from the cookie when the wrapped adapter is empty', async () => {
+    cookies.set(GUEST_COOKIE_NAME, encodeURIComponent(encodeWishlistCookie([makeItem()])));
+    const adapter = createCookieStorageAdapter({ storage: createMemoryStorageAdapter() });
+
+    expect(await getStoredItems(adapter)).toEqual([
+      expect.objectContaining({
+        productId: 'gid://shopify/Product/1',
+        productTitle: PLACEHOLDER_PRODUCT_TITLE,
+      }),
+    ]);
+  });
+
+  it('expires the cookie when the list is cleared', async () => {
+    const adapter = createCookieStorageAdapter({ storage: createMemoryStorageAdapter() });
+    await addStoredItem(makeItem(), adapter);
+
+    await clearStoredItems(adapter);
+
+    expect(cookies.has(GUEST_COOKIE_NAME)).toBe(false);
+    expect(await getStoredItems(adapter)).toEqual([]);
+  });
+
+  it('keeps a separate cookie per shop sharing the jar', async () => {
+    const cookieStorage = createCookieStorageAdapter({ storage: createMemoryStorageAdapter() });
+    const shopA = createScopedStorageAdapter(cookieStorage, { shopDomain: 'a.myshopify.com' });
+    const shopB = createScopedStorageAdapter(cookieStorage, { shopDomain: 'b.myshopify.com' });
+
+    await addStoredItem(makeItem(), shopA);
+
+    expect([...cookies.keys()]).toEqual([`${GUEST_COOKIE_NAME}:a.myshopify.com`]);
+    expect(await getStoredItems(shopB)).toEqual([]);
+    expect(await getStoredItems(shopA)).toEqual([makeItem()]);
+  });
+});
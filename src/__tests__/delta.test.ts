@@ -0,0 +1,70 @@
+/**
+ * hydrogen-wishlist delta sync tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { applyWishlistDelta, diffWishlists, isEmptyDelta } from '../utils/delta.js';
+import { makeItem } from './fixtures.js';
+
+import type { WishlistItem } from '../types.js';
+
+const a = makeItem({ productId: 'a' });
+const b = makeItem({ productId: 'b' });
+const c = makeItem({ productId: 'c' });
+
+// ---------------------------------------------------------------------------
+// diffWishlists
+// ---------------------------------------------------------------------------
+
+describe('diffWishlists', () => {
+  it('lists added, changed and removed items', () => {
+    const renamed = { ...b, productTitle: 'Renamed' };
+
+    expect(diffWishlists([a, b], [renamed, c])).toEqual({
+      added: [renamed, c],
+      removed: [{ productId: 'a', variantId: undefined }],
+    });
+  });
+
+  it('is empty for identical lists', () => {
+    expect(isEmptyDelta(diffWishlists([a, b], [a, b]))).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// applyWishlistDelta
+// ---------------------------------------------------------------------------
+
+describe('applyWishlistDelta', () => {
+  it('updates in place, appends new items and drops removed ones', () => {
+    const renamed = { ...b, productTitle: 'Renamed' };
+
+    expect(
+      applyWishlistDelta([a, b], { added: [c, renamed], removed: [{ productId: 'a' }] }),
+    ).toEqual([renamed, c]);
+  });
+
+  it('is idempotent', () => {
+    const delta = { added: [c], removed: [{ productId: 'a' }] };
+    const once = applyWishlistDelta([a, b], delta);
+
+    expect(applyWishlistDelta(once, delta)).toEqual(once);
+  });
+
+  it('round-trips a diff', () => {
+    const before = [a, b];
+    const after = [b, c];
+
+    expect(applyWishlistDelta(before, diffWishlists(before, after))).toEqual(after);
+  });
+
+  it('skips invalid entries', () => {
+    expect(
+      applyWishlistDelta([a], {
+        added: [{ productId: 'x' } as WishlistItem],
+        removed: [null as never],
+      }),
+    ).toEqual([a]);
+  });
+});
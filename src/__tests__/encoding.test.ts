@@ -0,0 +1,152 @@
+/**
+ * hydrogen-wishlist metafield encoding tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+import { METAFIELD_MAX_SHARDS, WISHLIST_SCHEMA_VERSION } from '../utils/constants.js';
+import {
+  compactWishlistItem,
+  decodeWishlistMetafields,
+  decodeWishlistTombstones,
+  encodeWishlistMetafields,
+  expandWishlistItem,
+  getWishlistShardCount,
+} from '../utils/encoding.js';
+import { makeItem as makeBaseItem } from './fixtures.js';
+
+import type { WishlistItem } from '../types.js';
+
+const makeItem = (overrides: Partial<WishlistItem> = {}): WishlistItem =>
+  makeBaseItem({
+    variantId: 'gid://shopify/ProductVariant/11',
+    productHandle: 'product-a',
+    image: { url: 'https://cdn.shopify.com/a.jpg', altText: 'A' },
+    price: { amount: '19.99', currencyCode: 'USD' },
+    ...overrides,
+  });
+
+const makeItems = (count: number): WishlistItem[] =>
+  Array.from({ length: count }, (_, i) =>
+    makeItem({
+      productId: `gid://shopify/Product/${i + 1}`,
+      variantId: `gid://shopify/ProductVariant/${i + 1000}`,
+    }),
+  );
+
+const toShards = (entries: Array<{ key: string; value: string }>) =>
+  entries.slice(1).map(({ key, value }) => ({ key, value }));
+
+// ---------------------------------------------------------------------------
+// compact items
+// ---------------------------------------------------------------------------
+
+describe('compactWishlistItem', () => {
+  it('keeps IDs, title, addedAt and saved price', () => {
+    expect(compactWishlistItem(makeItem())).toEqual({
+      p: '1',
+      v: '11',
+      t: 'Product A',
+      a: '2024-01-15T12:00:00Z',
+      $: ['19.99', 'USD'],
+    });
+  });
+
+  it('round-trips without display data', () => {
+    const { image: _image, productHandle: _handle, ...rest } = makeItem();
+    expect(expandWishlistItem(compactWishlistItem(makeItem()))).toEqual(rest);
+  });
+
+  it('keeps non-numeric IDs as they are', () => {
+    const item = makeItem({ productId: 'custom-1', variantId: undefined });
+    expect(expandWishlistItem(compactWishlistItem(item))?.productId).toBe('custom-1');
+  });
+
+  it('rejects malformed entries', () => {
+    expect(expandWishlistItem({ p: '1', a: '2024-01-15' })).toBeUndefined();
+    expect(expandWishlistItem('nope')).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// encode / decode
+// ---------------------------------------------------------------------------
+
+describe('encodeWishlistMetafields', () => {
+  it('stores small lists as a single envelope', () => {
+    const entries = encodeWishlistMetafields([makeItem()]);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]?.key).toBe('items');
+    expect(JSON.parse(entries[0]?.value ?? '')).toMatchObject({
+      version: WISHLIST_SCHEMA_VERSION,
+      items: [makeItem()],
+    });
+  });
+
+  it('compacts and shards lists over the size limit', () => {
+    const items = makeItems(40);
+    const entries = encodeWishlistMetafields(items, 1024);
+
+    expect(entries.length).toBeGreaterThan(1);
+    expect(entries.map((e) => e.key)).toEqual(
+      ['items', ...Array.from({ length: entries.length - 1 }, (_, i) => `items_${i + 1}`)],
+    );
+    entries.forEach((entry) => expect(entry.value.length).toBeLessThanOrEqual(1024));
+    expect(getWishlistShardCount(entries[0]?.value)).toBe(entries.length);
+
+    const decoded = decodeWishlistMetafields(entries[0]?.value, toShards(entries));
+    expect(decoded.map((i) => i.productId)).toEqual(items.map((i) => i.productId));
+    expect(decoded[0]?.price).toEqual({ amount: '19.99', currencyCode: 'USD' });
+  });
+
+  it('keeps tombstones in the envelope and the compact head', () => {
+    const removed = [{ productId: 'gid://shopify/Product/9', removedAt: '2024-02-01T00:00:00Z' }];
+
+    const [single] = encodeWishlistMetafields([makeItem()], undefined, removed);
+    const [head] = encodeWishlistMetafields(makeItems(40), 1024, removed);
+
+    expect(decodeWishlistTombstones(single?.value)).toEqual(removed);
+    expect(decodeWishlistTombstones(head?.value)).toEqual(removed);
+    expect(head?.value.length).toBeLessThanOrEqual(1024);
+  });
+
+  it('throws when the list needs too many shards', () => {
+    expect(() => encodeWishlistMetafields(makeItems(METAFIELD_MAX_SHARDS * 20), 512)).toThrow(
+      /too large/,
+    );
+  });
+});
+
+describe('decodeWishlistMetafields', () => {
+  it('reads legacy plain arrays and drops invalid entries', () => {
+    const value = JSON.stringify([makeItem(), { productId: 'p2' }]);
+    expect(decodeWishlistMetafields(value)).toEqual([makeItem()]);
+  });
+
+  it('skips missing or malformed shards', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const entries = encodeWishlistMetafields(makeItems(40), 1024);
+    const shards = toShards(entries);
+    shards[0] = { key: 'items_1', value: '{broken' };
+
+    const decoded = decodeWishlistMetafields(entries[0]?.value, shards);
+
+    expect(decoded.length).toBeGreaterThan(0);
+    expect(decoded.length).toBeLessThan(40);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('ignores shards beyond the recorded count', () => {
+    const entries = encodeWishlistMetafields(makeItems(40), 1024);
+    const stale = {
+      key: `items_${entries.length}`,
+      value: JSON.stringify([{ p: '999', t: 'Old', a: '2023-01-01' }]),
+    };
+
+    const decoded = decodeWishlistMetafields(entries[0]?.value, [...toShards(entries), stale]);
+
+    expect(decoded).toHaveLength(40);
+  });
+});
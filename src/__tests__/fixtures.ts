@@ -0,0 +1,12 @@
+/**
+ * Shared test fixtures
+ */
+
+import type { WishlistItem } from '../types.js';
+
+export const makeItem = (overrides: Partial<WishlistItem> = {}): WishlistItem => ({
+  productId: 'gid://shopify/Product/1',
+  productTitle: 'Product A',
+  addedAt: '2024-01-15T12:00:00Z',
+  ...overrides,
+});
@@ -0,0 +1,121 @@
+/**
+ * hydrogen-wishlist loader helper tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+import { getCustomerWishlist, getGuestWishlist } from '../server/loader.js';
+import { PLACEHOLDER_PRODUCT_TITLE } from '../utils/constants.js';
+import { encodeWishlistCookie } from '../utils/cookie.js';
+import { makeItem } from './fixtures.js';
+
+import type { WishlistItem } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// getCustomerWishlist
+// ---------------------------------------------------------------------------
+
+describe('getCustomerWishlist', () => {
+  it('returns items from the metafield without caching', async () => {
+    const storefront = {
+      query: vi.fn().mockResolvedValue({
+        customer: { id: 'c1', metafield: { value: JSON.stringify([makeItem()]) } },
+      }),
+      CacheNone: () => 'no-cache',
+    };
+
+    const items = await getCustomerWishlist({ storefront, customerAccessToken: 'token' });
+
+    expect(items).toEqual([makeItem()]);
+    expect(storefront.query).toHaveBeenCalledWith(expect.any(String), {
+      variables: { customerAccessToken: 'token' },
+      cache: 'no-cache',
+    });
+  });
+
+  it('returns an empty list for guests without querying', async () => {
+    const storefront = { query: vi.fn() };
+
+    expect(await getCustomerWishlist({ storefront, customerAccessToken: null })).toEqual([]);
+    expect(storefront.query).not.toHaveBeenCalled();
+  });
+
+  it('returns null when the metafield cannot be read', async () => {
+    const expired = { query: vi.fn().mockResolvedValue({ customer: null }) };
+    const failing = { query: vi.fn().mockRejectedValue(new Error('boom')) };
+
+    expect(await getCustomerWishlist({ storefront: expired, customerAccessToken: 't' })).toBeNull();
+    expect(await getCustomerWishlist({ storefront: failing, customerAccessToken: 't' })).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getGuestWishlist
+// ---------------------------------------------------------------------------
+
+describe('getGuestWishlist', () => {
+  const scope = { shopDomain: 'my-store.myshopify.com' };
+  const cookieRequest = (items: WishlistItem[], name = 'wishbridge_guest:my-store.myshopify.com') =>
+    new Request('https://shop.test/', {
+      headers: { Cookie: `other=1; ${name}=${encodeURIComponent(encodeWishlistCookie(items))}` },
+    });
+
+  it('reads keys from the cookie and fills in product data', async () => {
+    const storefront = {
+      query: vi.fn().mockResolvedValue({
+        nodes: [
+          {
+            __typename: 'Product',
+            id: 'gid://shopify/Product/1',
+            title: 'Live Title',
+            handle: 'live-title',
+            availableForSale: true,
+          },
+        ],
+      }),
+    };
+
+    const items = await getGuestWishlist({ request: cookieRequest([makeItem()]), storefront, scope });
+
+    expect(items).toEqual([
+      expect.objectContaining({
+        productId: 'gid://shopify/Product/1',
+        productTitle: 'Live Title',
+        productHandle: 'live-title',
+        addedAt: '2024-01-15T12:00:00.000Z',
+      }),
+    ]);
+    expect(storefront.query).toHaveBeenCalledWith(expect.any(String), {
+      variables: { ids: ['gid://shopify/Product/1'] },
+    });
+  });
+
+  it('keeps placeholder titles without a storefront client or on failure', async () => {
+    const failing = { query: vi.fn().mockRejectedValue(new Error('boom')) };
+
+    for (const storefront of [undefined, failing]) {
+      const items = await getGuestWishlist({ request: cookieRequest([makeItem()]), storefront, scope });
+      expect(items).toEqual([
+        expect.objectContaining({ productTitle: PLACEHOLDER_PRODUCT_TITLE }),
+      ]);
+    }
+  });
+
+  it("reads only the scoped shop's cookie", async () => {
+    const request = cookieRequest([makeItem()], 'wishbridge_guest:other-store.myshopify.com');
+
+    expect(await getGuestWishlist({ request, scope })).toEqual([]);
+    expect(
+      await getGuestWishlist({ request, scope: { shopDomain: 'other-store.myshopify.com' } }),
+    ).toHaveLength(1);
+  });
+
+  it('returns an empty list without a cookie', async () => {
+    const storefront = { query: vi.fn() };
+
+    expect(
+      await getGuestWishlist({ request: new Request('https://shop.test/'), storefront, scope }),
+    ).toEqual([]);
+    expect(storefront.query).not.toHaveBeenCalled();
+  });
+});
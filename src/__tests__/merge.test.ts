@@ -7,6 +7,13 @@ import { describe, it, expect } from 'vitest';
 import {
   mergeWishlists,
   createItemKey,
+  applyOperations,
+  applyTombstones,
+  createMergeReport,
+  mergeWishlistsWithReport,
+  mergeTombstones,
+  pruneTombstones,
+  recordTombstones,
   findNewItems,
   deduplicateItems,
   sortByNewest,
@@ -15,15 +22,7 @@ import {
   sortByPriceLowToHigh,
   sortByPriceHighToLow,
 } from '../utils/merge.js';
-
-import type { WishlistItem } from '../types.js';
-
-const makeItem = (overrides: Partial<WishlistItem> = {}): WishlistItem => ({
-  productId: 'gid://shopify/Product/1',
-  productTitle: 'Product A',
-  addedAt: '2024-01-15T12:00:00Z',
-  ...overrides,
-});
+import { makeItem } from './fixtures.js';
 
 // ---------------------------------------------------------------------------
 // createItemKey
@@ -126,6 +125,47 @@ describe('mergeWishlists', () => {
   });
 });
 
+describe('mergeWishlists strategies', () => {
+  const guest = [
+    makeItem({ productId: 'p1', productTitle: 'Guest copy', addedAt: '2024-02-01T00:00:00Z' }),
+    makeItem({ productId: 'p2', addedAt: '2024-01-20T00:00:00Z' }),
+  ];
+  const customer = [
+    makeItem({ productId: 'p1', productTitle: 'Account copy', addedAt: '2024-01-01T00:00:00Z' }),
+    makeItem({ productId: 'p3', addedAt: '2024-01-10T00:00:00Z' }),
+  ];
+
+  it('server-wins keeps the customer list', () => {
+    expect(mergeWishlists(guest, customer, { strategy: 'server-wins' })).toEqual(customer);
+  });
+
+  it('guest-wins replaces the customer list unless the guest list is empty', () => {
+    expect(mergeWishlists(guest, customer, { strategy: 'guest-wins' })).toEqual(guest);
+    expect(mergeWishlists([], customer, { strategy: 'guest-wins' })).toEqual(customer);
+  });
+
+  it('replace saves the guest list even when it is empty', () => {
+    expect(mergeWishlists(guest, customer, { replace: true })).toEqual(guest);
+    expect(mergeWishlists([], customer, { strategy: 'union', replace: true })).toEqual([]);
+  });
+
+  it('latest-wins keeps the most recently added copy of duplicates', () => {
+    const result = mergeWishlists(guest, customer, { strategy: 'latest-wins' });
+
+    expect(result.map((item) => item.productId)).toEqual(['p1', 'p2', 'p3']);
+    expect(result[0]).toEqual(guest[0]);
+  });
+
+  it('applies tombstones before any strategy', () => {
+    const result = mergeWishlists(guest, customer, {
+      strategy: 'guest-wins',
+      tombstones: [{ productId: 'p2', removedAt: '2024-03-01T00:00:00Z' }],
+    });
+
+    expect(result.map((item) => item.productId)).toEqual(['p1']);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // findNewItems
 // ---------------------------------------------------------------------------
@@ -295,3 +335,161 @@ describe('sortByPriceHighToLow', () => {
     expect(result[1]!.productId).toBe('p1');
   });
 });
+
+// ---------------------------------------------------------------------------
+// applyOperations
+// ---------------------------------------------------------------------------
+
+describe('applyOperations', () => {
+  it('adds queued items and removes queued removals', () => {
+    const serverItems = [makeItem({ productId: 'p1' }), makeItem({ productId: 'p2' })];
+    const result = applyOperations(serverItems, [
+      { action: 'add', item: makeItem({ productId: 'p3' }) },
+      { action: 'remove', item: { productId: 'p1' } },
+    ]);
+
+    expect(result.map((item) => item.productId)).toEqual(['p3', 'p2']);
+  });
+
+  it('does not duplicate items already on the server', () => {
+    const serverItems = [makeItem({ productId: 'p1' })];
+    const result = applyOperations(serverItems, [
+      { action: 'add', item: makeItem({ productId: 'p1' }) },
+    ]);
+
+    expect(result).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tombstones
+// ---------------------------------------------------------------------------
+
+describe('tombstones', () => {
+  const tombstone = (productId: string, removedAt: string) => ({ productId, removedAt });
+
+  it('keeps a removed item out of the merge', () => {
+    // Removed on one device; an older guest copy is still on another
+    const guestItems = [makeItem({ productId: 'p1', addedAt: '2024-01-01T00:00:00Z' })];
+    const customerItems = [makeItem({ productId: 'p2' })];
+
+    const result = mergeWishlists(guestItems, customerItems, {
+      tombstones: [tombstone('p1', '2024-02-01T00:00:00Z')],
+    });
+
+    expect(result.map((item) => item.productId)).toEqual(['p2']);
+  });
+
+  it('keeps items added back after the removal', () => {
+    const guestItems = [makeItem({ productId: 'p1', addedAt: '2024-01-01T00:00:00Z' })];
+    const customerItems = [makeItem({ productId: 'p1', addedAt: '2024-03-01T00:00:00Z' })];
+
+    const result = mergeWishlists(guestItems, customerItems, {
+      tombstones: [tombstone('p1', '2024-02-01T00:00:00Z')],
+    });
+
+    expect(result).toEqual(customerItems);
+  });
+
+  it('matches tombstones by variant', () => {
+    const items = [
+      makeItem({ productId: 'p1', variantId: 'v1' }),
+      makeItem({ productId: 'p1', variantId: 'v2' }),
+    ];
+
+    const result = applyTombstones(items, [
+      { productId: 'p1', variantId: 'v1', removedAt: '2024-02-01T00:00:00Z' },
+    ]);
+
+    expect(result.map((item) => item.variantId)).toEqual(['v2']);
+  });
+
+  it('keeps the latest removal per item', () => {
+    expect(
+      mergeTombstones(
+        [tombstone('p1', '2024-01-01T00:00:00Z'), tombstone('p2', '2024-01-01T00:00:00Z')],
+        [tombstone('p1', '2024-02-01T00:00:00Z')],
+      ),
+    ).toEqual([tombstone('p1', '2024-02-01T00:00:00Z'), tombstone('p2', '2024-01-01T00:00:00Z')]);
+  });
+
+  it('garbage-collects tombstones past the window', () => {
+    const now = Date.parse('2024-02-01T00:00:00Z');
+    const tombstones = [
+      tombstone('p1', '2024-01-01T00:00:00Z'),
+      tombstone('p2', '2024-01-31T00:00:00Z'),
+    ];
+
+    expect(pruneTombstones(tombstones, 7 * 86_400_000, now)).toEqual([tombstones[1]]);
+  });
+
+  it('records removals and clears them when items are added back', () => {
+    const removedAt = '2024-02-01T00:00:00Z';
+
+    const result = recordTombstones(
+      [tombstone('p1', '2024-01-01T00:00:00Z')],
+      [
+        { action: 'add', item: makeItem({ productId: 'p1' }) },
+        { action: 'remove', item: { productId: 'p2' } },
+      ],
+      removedAt,
+    );
+
+    expect(result).toEqual([tombstone('p2', removedAt)]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Merge reports
+// ---------------------------------------------------------------------------
+
+describe('merge reports', () => {
+  const customer = [
+    makeItem({ productId: 'p1' }),
+    makeItem({ productId: 'p2', price: { amount: '10.00', currencyCode: 'USD' } }),
+  ];
+
+  it('sorts guest items into added, duplicates, conflicts and rejected', () => {
+    const guest = [
+      makeItem({ productId: 'p1', addedAt: '2024-01-01T00:00:00Z' }),
+      makeItem({ productId: 'p2', price: { amount: '8.00', currencyCode: 'USD' } }),
+      makeItem({ productId: 'p3' }),
+      { productId: 'p4' },
+    ];
+
+    const { items, report } = mergeWishlistsWithReport(guest, customer);
+
+    expect(items).toHaveLength(3);
+    expect(report.added.map((item) => item.productId)).toEqual(['p3']);
+    expect(report.duplicates).toEqual([items.find((item) => item.productId === 'p1')]);
+    expect(report.conflicts).toEqual([
+      {
+        guest: guest[1],
+        customer: customer[1],
+        resolved: items.find((item) => item.productId === 'p2'),
+      },
+    ]);
+    expect(report.discarded).toEqual([]);
+    expect(report.rejected).toEqual([{ productId: 'p4' }]);
+  });
+
+  it('lists guest items the strategy or a removal left out as discarded', () => {
+    const guest = [makeItem({ productId: 'p3' }), makeItem({ productId: 'p5' })];
+
+    const { report } = mergeWishlistsWithReport(guest, customer, {
+      strategy: 'server-wins',
+    });
+
+    expect(report.discarded.map((item) => item.productId)).toEqual(['p3', 'p5']);
+    expect(report.added).toEqual([]);
+  });
+
+  it('reports on any merged list, such as a custom resolver result', () => {
+    const guest = [makeItem({ productId: 'p3' }), makeItem({ productId: 'p5' })];
+
+    const report = createMergeReport(guest, customer, [...customer, guest[0]!]);
+
+    expect(report.added).toEqual([guest[0]]);
+    expect(report.discarded).toEqual([guest[1]]);
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * hydrogen-wishlist backend-less metafield route tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+import { handleWishlistMetafieldRequest } from '../server/metafield.js';
+import { WishBridgeClient } from '../utils/client.js';
+import { METAFIELD_MAX_VALUE_BYTES } from '../utils/constants.js';
+import { decodeWishlistMetafields, WISHLIST_SHARD_KEYS } from '../utils/encoding.js';
+import { makeItem } from './fixtures.js';
+
+import type { CustomerAccountClient } from '../server/customerAccount.js';
+import type { WishlistItem } from '../types.js';
+
+const CUSTOMER_ID = 'gid://shopify/Customer/1';
+
+const post = (path: string, body: unknown): Request =>
+  new Request(`https://shop.test${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+/**
+ * Customer Account API stand-in backed by in-memory metafield values
+ */
+const createCustomerAccount = (
+  items: WishlistItem[] = [],
+  { loggedIn = true, userErrors = [] as Array<{ message: string }> } = {},
+) => {
+  const values = new Map<string, string>(
+    items.length > 0 ? [['items', JSON.stringify(items)]] : [],
+  );
+
+  const customerAccount = {
+    isLoggedIn: vi.fn().mockResolvedValue(loggedIn),
+    query: vi.fn(async () => ({
+      data: loggedIn
+        ? {
+            customer: {
+              id: CUSTOMER_ID,
+              metafield: values.has('items') ? { value: values.get('items') } : null,
+              shards: WISHLIST_SHARD_KEYS.map((key) =>
+                values.has(key) ? { key, value: values.get(key) } : null,
+              ),
+            },
+          }
+        : { customer: null },
+    })),
+    mutate: vi.fn(async (_mutation: string, options?: { variables?: Record<string, unknown> }) => {
+      const metafields = options?.variables?.['metafields'] as Array<{ key: string; value: string }>;
+      if (userErrors.length === 0) {
+        metafields.forEach(({ key, value }) => values.set(key, value));
+      }
+      return { data: { metafieldsSet: { userErrors } } };
+    }),
+  };
+
+  return {
+    customerAccount: customerAccount as unknown as CustomerAccountClient & typeof customerAccount,
+    values,
+    getItems: (): WishlistItem[] => decodeWishlistMetafields(values.get('items')),
+  };
+};
+
+// ---------------------------------------------------------------------------
+// handleWishlistMetafieldRequest
+// ---------------------------------------------------------------------------
+
+describe('handleWishlistMetafieldRequest', () => {
+  it('merges guest items into the metafield on sync', async () => {
+    const { customerAccount, getItems } = createCustomerAccount([makeItem({ productId: 'p1' })]);
+
+    const res = await handleWishlistMetafieldRequest(
+      post('/api/wishlist/sync', { guestItems: [makeItem({ productId: 'p2' })] }),
+      { customerAccount },
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.items.map((i: WishlistItem) => i.productId)).toEqual(['p1', 'p2']);
+    expect(getItems()).toEqual(body.items);
+    expect(body.report).toEqual({
+      added: [makeItem({ productId: 'p2' })],
+      duplicates: [],
+      conflicts: [],
+      discarded: [],
+      rejected: [],
+    });
+
+    const [, options] = customerAccount.mutate.mock.calls[0]!;
+    expect(options?.variables?.['metafields']).toEqual([
+      expect.objectContaining({
+        ownerId: CUSTOMER_ID,
+        namespace: 'wishbridge',
+        key: 'items',
+        type: 'json',
+      }),
+    ]);
+  });
+
+  it('reads without writing when there are no guest items', async () => {
+    const { customerAccount } = createCustomerAccount([makeItem({ productId: 'p1' })]);
+
+    const res = await handleWishlistMetafieldRequest(post('/api/wishlist/sync', { guestItems: [] }), {
+      customerAccount,
+    });
+
+    expect((await res.json()).items).toHaveLength(1);
+    expect(customerAccount.mutate).not.toHaveBeenCalled();
+  });
+
+  it('saves an empty list sent as a replacement', async () => {
+    const { customerAccount, getItems } = createCustomerAccount([makeItem({ productId: 'p1' })]);
+
+    const res = await handleWishlistMetafieldRequest(
+      post('/api/wishlist/sync', { guestItems: [], replace: true }),
+      { customerAccount },
+    );
+
+    expect((await res.json()).items).toEqual([]);
+    expect(getItems()).toEqual([]);
+  });
+
+  it('applies single and batched updates', async () => {
+    const { customerAccount, getItems } = createCustomerAccount([makeItem({ productId: 'p1' })]);
+
+    await handleWishlistMetafieldRequest(
+      post('/api/wishlist/update', { action: 'add', item: makeItem({ productId: 'p2' }) }),
+      { customerAccount },
+    );
+    await handleWishlistMetafieldRequest(
+      post('/api/wishlist/update', {
+        operations: [
+          { action: 'remove', item: { productId: 'p1' } },
+          { action: 'add', item: makeItem({ productId: 'p3' }) },
+        ],
+      }),
+      { customerAccount },
+    );
+
+    expect(getItems().map((i) => i.productId)).toEqual(['p3', 'p2']);
+  });
+
+  it('does not bring back items removed before the guest copy was merged', async () => {
+    const { customerAccount, getItems } = createCustomerAccount([
+      makeItem({ productId: 'p1' }),
+      makeItem({ productId: 'p2' }),
+    ]);
+
+    await handleWishlistMetafieldRequest(
+      post('/api/wishlist/update', { action: 'remove', item: { productId: 'p1' } }),
+      { customerAccount },
+    );
+    const res = await handleWishlistMetafieldRequest(
+      post('/api/wishlist/sync', { guestItems: [makeItem({ productId: 'p1' })] }),
+      { customerAccount },
+    );
+
+    expect((await res.json()).items.map((i: WishlistItem) => i.productId)).toEqual(['p2']);
+    expect(getItems().map((i) => i.productId)).toEqual(['p2']);
+  });
+
+  it('applies guest removals to the customer list on sync', async () => {
+    const { customerAccount, getItems } = createCustomerAccount([
+      makeItem({ productId: 'p1' }),
+      makeItem({ productId: 'p2' }),
+    ]);
+
+    await handleWishlistMetafieldRequest(
+      post('/api/wishlist/sync', {
+        guestItems: [],
+        guestRemoved: [{ productId: 'p1', removedAt: new Date().toISOString() }],
+      }),
+      { customerAccount },
+    );
+
+    expect(getItems().map((i) => i.productId)).toEqual(['p2']);
+  });
+
+  it('shards large lists and empties shards that are no longer used', async () => {
+    const manyItems = Array.from({ length: 1500 }, (_, i) =>
+      makeItem({
+        productId: `gid://shopify/Product/${i + 1}`,
+        productTitle: `Product ${i + 1} with a reasonably long descriptive title`,
+        image: { url: `https://cdn.shopify.com/s/files/1/0000/0001/products/${i}.jpg` },
+      }),
+    );
+    const { customerAccount, values } = createCustomerAccount();
+
+    const res = await handleWishlistMetafieldRequest(
+      post('/api/wishlist/sync', { guestItems: manyItems }),
+      { customerAccount },
+    );
+    expect(res.status).toBe(200);
+    expect(values.has('items_1')).toBe(true);
+    for (const value of values.values()) {
+      expect(new TextEncoder().encode(value).length).toBeLessThanOrEqual(
+        METAFIELD_MAX_VALUE_BYTES,
+      );
+    }
+
+    const reread = await handleWishlistMetafieldRequest(
+      post('/api/wishlist/sync', { guestItems: [] }),
+      { customerAccount },
+    );
+    expect((await reread.json()).items).toHaveLength(1500);
+
+    await handleWishlistMetafieldRequest(
+      post('/api/wishlist/update', {
+        operations: manyItems.slice(1).map((item) => ({ action: 'remove', item })),
+      }),
+      { customerAccount },
+    );
+    expect(values.get('items_1')).toBe('[]');
+    expect(JSON.parse(values.get('items') ?? '').items).toHaveLength(1);
+  });
+
+  it('rejects invalid operations without writing', async () => {
+    const { customerAccount } = createCustomerAccount();
+
+    const res = await handleWishlistMetafieldRequest(
+      post('/api/wishlist/update', { action: 'add', item: { productId: 'p1' } }),
+      { customerAccount },
+    );
+
+    expect(res.status).toBe(400);
+    expect(customerAccount.mutate).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 for guests', async () => {
+    const { customerAccount } = createCustomerAccount([], { loggedIn: false });
+
+    const res = await handleWishlistMetafieldRequest(post('/api/wishlist/sync', { guestItems: [] }), {
+      customerAccount,
+    });
+
+    expect(res.status).toBe(401);
+    expect(customerAccount.query).not.toHaveBeenCalled();
+  });
+
+  it('returns 422 with the metafieldsSet user error', async () => {
+    const { customerAccount } = createCustomerAccount([], {
+      userErrors: [{ message: 'Value is too long' }],
+    });
+
+    const res = await handleWishlistMetafieldRequest(
+      post('/api/wishlist/update', { action: 'add', item: makeItem() }),
+      { customerAccount },
+    );
+
+    expect(res.status).toBe(422);
+    expect((await res.json()).error).toBe('Value is too long');
+  });
+
+  it('accepts events without storing them and rejects share', async () => {
+    const { customerAccount } = createCustomerAccount();
+
+    const event = await handleWishlistMetafieldRequest(
+      post('/api/wishlist/event', { event: 'add', productId: 'p1' }),
+      { customerAccount },
+    );
+    const share = await handleWishlistMetafieldRequest(post('/api/wishlist/share', {}), {
+      customerAccount,
+    });
+
+    expect(event.status).toBe(200);
+    expect(share.status).toBe(501);
+    expect(customerAccount.query).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// WishBridgeClient with customer-account storage
+// ---------------------------------------------------------------------------
+
+describe('WishBridgeClient customer-account storage', () => {
+  it('round-trips updates through the route', async () => {
+    const { customerAccount, getItems } = createCustomerAccount();
+    const routeFetch = vi.fn((input: RequestInfo | URL, init?: RequestInit) =>
+      handleWishlistMetafieldRequest(new Request(new URL(String(input), 'https://shop.test'), init), {
+        customerAccount,
+      }),
+    );
+
+    const client = new WishBridgeClient({
+      proxyUrl: '/api/wishlist',
+      shopDomain: 'my-store.myshopify.com',
+      customerId: CUSTOMER_ID,
+      storage: 'customer-account',
+      retry: false,
+      fetch: routeFetch as typeof fetch,
+    });
+
+    const result = await client.update({ action: 'add', item: makeItem() });
+
+    expect(client.isEnabled).toBe(true);
+    expect(result.items).toEqual([makeItem()]);
+    expect(getItems()).toEqual([makeItem()]);
+  });
+
+  it('skips events and rejects share without a request', async () => {
+    const routeFetch = vi.fn();
+    const client = new WishBridgeClient({
+      proxyUrl: '/api/wishlist',
+      shopDomain: 'my-store.myshopify.com',
+      customerId: CUSTOMER_ID,
+      storage: 'customer-account',
+      fetch: routeFetch,
+    });
+
+    await expect(client.event({ event: 'view', productId: 'p1' })).resolves.toEqual({
+      success: true,
+    });
+    await expect(client.share()).rejects.toMatchObject({ code: 'request_failed' });
+    expect(routeFetch).not.toHaveBeenCalled();
+  });
+
+  it('is disabled without a proxy route', () => {
+    const client = new WishBridgeClient({
+      apiKey: 'wb_test',
+      shopDomain: 'my-store.myshopify.com',
+      customerId: CUSTOMER_ID,
+      storage: 'customer-account',
+    });
+
+    expect(client.isEnabled).toBe(false);
+  });
+});
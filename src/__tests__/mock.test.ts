@@ -0,0 +1,217 @@
+/**
+ * hydrogen-wishlist mock backend tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { WishBridgeClient } from '../utils/client.js';
+import { createMockWishBridge } from '../utils/mock.js';
+import { makeItem } from './fixtures.js';
+
+import type { WishBridgeConfig, WishlistItem } from '../types.js';
+
+const CUSTOMER_ID = 'gid://shopify/Customer/1';
+
+const setup = (overrides: Partial<WishBridgeConfig> = {}) => {
+  const backend = createMockWishBridge({
+    apiKey: 'wb_test',
+    items: { [CUSTOMER_ID]: [makeItem({ productId: 'p1' })] },
+  });
+  const client = new WishBridgeClient({
+    apiUrl: 'https://wishbridge.test',
+    apiKey: 'wb_test',
+    shopDomain: 'my-store.myshopify.com',
+    customerId: CUSTOMER_ID,
+    retry: false,
+    fetch: backend.fetch,
+    ...overrides,
+  });
+  return { backend, client };
+};
+
+// ---------------------------------------------------------------------------
+// endpoints
+// ---------------------------------------------------------------------------
+
+describe('createMockWishBridge endpoints', () => {
+  it('merges guest items on sync', async () => {
+    const { backend, client } = setup();
+
+    const result = await client.sync({ guestItems: [makeItem({ productId: 'p2' })] });
+
+    expect(result.items).toHaveLength(2);
+    expect(backend.getItems(CUSTOMER_ID)).toHaveLength(2);
+  });
+
+  it('drops invalid guest items on sync', async () => {
+    const { client } = setup();
+
+    const result = await client.sync({
+      guestItems: [{ productId: 'p2' } as WishlistItem],
+    });
+
+    expect(result.items).toHaveLength(1);
+  });
+
+  it('answers syncs with a watermark with only the changes since then', async () => {
+    const { client } = setup();
+    const first = await client.sync({ guestItems: [] });
+    const base = first.items ?? [];
+
+    await client.update({
+      operations: [
+        { action: 'remove', item: { productId: 'p1' } },
+        { action: 'add', item: makeItem({ productId: 'p2' }) },
+      ],
+    });
+    const result = await client.sync({
+      guestItems: [makeItem({ productId: 'p3' })],
+      since: first.syncedAt,
+    });
+
+    expect(base).toHaveLength(1);
+    expect(result.items).toBeUndefined();
+    expect(result.changes?.added.map((item) => item.productId).sort()).toEqual(['p2', 'p3']);
+    expect(result.changes?.removed).toEqual([{ productId: 'p1' }]);
+    expect(result.syncedAt).toBeDefined();
+  });
+
+  it('sends the full list when the watermark predates its change log', async () => {
+    const { client } = setup();
+
+    const result = await client.sync({ guestItems: [], since: '2000-01-01T00:00:00.000Z' });
+
+    expect(result.items).toHaveLength(1);
+    expect(result.changes).toBeUndefined();
+  });
+
+  it('applies single and batched updates', async () => {
+    const { backend, client } = setup();
+
+    await client.update({ action: 'add', item: makeItem({ productId: 'p2' }) });
+    const result = await client.update({
+      operations: [
+        { action: 'remove', item: { productId: 'p1' } },
+        { action: 'add', item: makeItem({ productId: 'p3' }) },
+      ],
+    });
+
+    expect(result.items?.map((item) => item.productId)).toEqual(['p3', 'p2']);
+    expect(backend.getItems(CUSTOMER_ID)).toEqual(result.items);
+  });
+
+  it('reports what happened to each guest item', async () => {
+    const { client } = setup();
+
+    const result = await client.sync({
+      guestItems: [
+        makeItem({ productId: 'p1' }),
+        makeItem({ productId: 'p2' }),
+        { productId: 'p3' } as WishlistItem,
+      ],
+    });
+
+    expect(result.report?.added.map((item) => item.productId)).toEqual(['p2']);
+    expect(result.report?.duplicates.map((item) => item.productId)).toEqual(['p1']);
+    expect(result.report?.rejected).toEqual([{ productId: 'p3' }]);
+  });
+
+  it('merges with the requested strategy', async () => {
+    const { backend, client } = setup();
+
+    await client.sync({ guestItems: [makeItem({ productId: 'p2' })], mergeStrategy: 'server-wins' });
+    expect(backend.getItems(CUSTOMER_ID).map((item) => item.productId)).toEqual(['p1']);
+
+    await client.sync({ guestItems: [makeItem({ productId: 'p2' })], mergeStrategy: 'guest-wins' });
+    expect(backend.getItems(CUSTOMER_ID).map((item) => item.productId)).toEqual(['p2']);
+  });
+
+  it('keeps removed items out of later guest merges', async () => {
+    const { backend, client } = setup();
+
+    await client.update({ action: 'remove', item: { productId: 'p1' } });
+    const result = await client.sync({ guestItems: [makeItem({ productId: 'p1' })] });
+
+    expect(result.items).toEqual([]);
+    expect(backend.getTombstones(CUSTOMER_ID)).toEqual([
+      { productId: 'p1', removedAt: expect.any(String) },
+    ]);
+  });
+
+  it('records analytics events', async () => {
+    const { backend, client } = setup();
+
+    await client.event({ event: 'view', productId: 'p1' });
+
+    expect(backend.events).toEqual([
+      { event: 'view', productId: 'p1', variantId: undefined, customerId: CUSTOMER_ID },
+    ]);
+  });
+
+  it('creates share links that resolve to the wishlist', async () => {
+    const { backend, client } = setup();
+
+    const { token, url } = await client.share({ customerName: 'Sam' });
+
+    expect(url).toBe(`https://wishbridge.test/wishlist/shared/${token}`);
+    expect(backend.getShare(token ?? '')).toMatchObject({
+      success: true,
+      customerName: 'Sam',
+      items: [{ productId: 'p1' }],
+    });
+  });
+
+  it('rejects requests without the API key', async () => {
+    const { client } = setup({ apiKey: 'wrong' });
+
+    await expect(client.sync({ guestItems: [] })).rejects.toMatchObject({ status: 401 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// scripted failures
+// ---------------------------------------------------------------------------
+
+describe('createMockWishBridge failures', () => {
+  it('fails the next request with a status and Retry-After', async () => {
+    const { backend, client } = setup();
+    backend.failNext({ type: 'status', status: 429, retryAfter: 2 });
+
+    await expect(client.sync({ guestItems: [] })).rejects.toMatchObject({
+      code: 'rate_limited',
+      retryAfterMs: 2000,
+    });
+    await expect(client.sync({ guestItems: [] })).resolves.toMatchObject({ success: true });
+  });
+
+  it('only fails the matching endpoint', async () => {
+    const { backend, client } = setup();
+    backend.failNext({ type: 'status', status: 500, endpoint: 'update' });
+
+    await expect(client.sync({ guestItems: [] })).resolves.toMatchObject({ success: true });
+    await expect(
+      client.update({ action: 'remove', item: { productId: 'p1' } }),
+    ).rejects.toMatchObject({ status: 500 });
+  });
+
+  it('simulates network failures and timeouts', async () => {
+    const { backend, client } = setup();
+    backend.failNext({ type: 'network' });
+    backend.failNext({ type: 'timeout' });
+
+    await expect(client.sync({ guestItems: [] })).rejects.toMatchObject({ code: 'network' });
+    await expect(
+      client.sync({ guestItems: [] }, { timeoutMs: 10 }),
+    ).rejects.toMatchObject({ code: 'timeout' });
+  });
+
+  it('lets retries recover from repeated failures', async () => {
+    const { backend, client } = setup({
+      retry: { maxAttempts: 3, baseDelayMs: 1, jitter: 'none' },
+    });
+    backend.failNext({ type: 'status', status: 503, times: 2 });
+
+    await expect(client.sync({ guestItems: [] })).resolves.toMatchObject({ success: true });
+    expect(backend.requests).toHaveLength(3);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * hydrogen-wishlist price change tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { getPriceChange, getPriceChanges, isPriceDrop, sortByPriceDrop } from '../utils/prices.js';
+import { sortWishlistItems } from '../utils/sort.js';
+import { makeItem as makeBaseItem } from './fixtures.js';
+
+import type { LiveProductData, WishlistItem } from '../types.js';
+
+const makeItem = (overrides: Partial<WishlistItem> = {}): WishlistItem =>
+  makeBaseItem({
+    price: { amount: '50.00', currencyCode: 'USD' },
+    ...overrides,
+  });
+
+const live = (amount: string, currencyCode = 'USD'): LiveProductData => ({
+  productTitle: 'Product A',
+  productHandle: 'product-a',
+  price: { amount, currencyCode },
+  availableForSale: true,
+});
+
+// ---------------------------------------------------------------------------
+// getPriceChange
+// ---------------------------------------------------------------------------
+
+describe('getPriceChange', () => {
+  it('computes the delta against the saved price', () => {
+    expect(getPriceChange(makeItem(), live('40.00'))).toEqual({
+      productId: 'gid://shopify/Product/1',
+      variantId: undefined,
+      savedPrice: { amount: '50.00', currencyCode: 'USD' },
+      currentPrice: { amount: '40.00', currencyCode: 'USD' },
+      amountChange: -10,
+      percentChange: -20,
+    });
+  });
+
+  it('reports increases', () => {
+    const change = getPriceChange(makeItem(), live('60.00'));
+    expect(change?.percentChange).toBe(20);
+    expect(isPriceDrop(change)).toBe(false);
+  });
+
+  it('ignores unchanged prices, other currencies and missing data', () => {
+    expect(getPriceChange(makeItem(), live('50.0'))).toBeUndefined();
+    expect(getPriceChange(makeItem(), live('40.00', 'EUR'))).toBeUndefined();
+    expect(getPriceChange(makeItem({ price: undefined }), live('40.00'))).toBeUndefined();
+    expect(getPriceChange(makeItem(), null)).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getPriceChanges / sorting
+// ---------------------------------------------------------------------------
+
+describe('getPriceChanges', () => {
+  it('looks up variants and only returns changed items', () => {
+    const items = [
+      makeItem({ productId: 'p1', variantId: 'v1' }),
+      makeItem({ productId: 'p2' }),
+    ];
+
+    const changes = getPriceChanges(items, { v1: live('45.00'), p2: live('50.00') });
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ productId: 'p1', variantId: 'v1', amountChange: -5 });
+  });
+});
+
+describe('sortByPriceDrop', () => {
+  it('puts the largest drops first, then the rest newest first', () => {
+    const items = [
+      makeItem({ productId: 'old', addedAt: '2024-01-01T00:00:00Z' }),
+      makeItem({ productId: 'small-drop' }),
+      makeItem({ productId: 'new', addedAt: '2024-06-01T00:00:00Z' }),
+      makeItem({ productId: 'big-drop' }),
+      makeItem({ productId: 'increase' }),
+    ];
+    const changes = getPriceChanges(items, {
+      'small-drop': live('45.00'),
+      'big-drop': live('25.00'),
+      increase: live('75.00'),
+    });
+
+    expect(sortByPriceDrop(items, changes).map((i) => i.productId)).toEqual([
+      'big-drop',
+      'small-drop',
+      'new',
+      'increase',
+      'old',
+    ]);
+    expect(sortWishlistItems(items, 'price-drop', changes)[0]?.productId).toBe('big-drop');
+  });
+});
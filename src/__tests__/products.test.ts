@@ -0,0 +1,282 @@
+/**
+ * hydrogen-wishlist live product data tests
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+
+import { STORAGE_KEYS, STOREFRONT_NODES_LIMIT } from '../utils/constants.js';
+import {
+  canHydrateProducts,
+  fetchLiveProducts,
+  getLiveProductId,
+  loadLiveProducts,
+  overlayLiveProduct,
+} from '../utils/products.js';
+import { makeItem as makeBaseItem } from './fixtures.js';
+
+import type { LiveProductData, WishBridgeConfig, WishlistItem } from '../types.js';
+
+const makeItem = (overrides: Partial<WishlistItem> = {}): WishlistItem =>
+  makeBaseItem({
+    productTitle: 'Old Title',
+    productHandle: 'old-handle',
+    price: { amount: '50.00', currencyCode: 'USD' },
+    ...overrides,
+  });
+
+const productNode = (id: string, overrides: Record<string, unknown> = {}) => ({
+  __typename: 'Product',
+  id,
+  title: 'New Title',
+  handle: 'new-handle',
+  availableForSale: true,
+  featuredImage: { url: 'https://cdn.test/new.jpg', altText: null },
+  priceRange: { minVariantPrice: { amount: '40.00', currencyCode: 'USD' } },
+  ...overrides,
+});
+
+const graphqlResponse = (data: unknown): Response =>
+  new Response(JSON.stringify({ data }), { status: 200 });
+
+/**
+ * Fetch stand-in answering `nodes` queries from a lookup table
+ */
+const createNodesFetch = (nodes: Record<string, unknown>) =>
+  vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+    const { variables } = JSON.parse(init?.body as string) as { variables: { ids: string[] } };
+    return graphqlResponse({ nodes: variables.ids.map((id) => nodes[id] ?? null) });
+  });
+
+const baseConfig: WishBridgeConfig = {
+  shopDomain: 'my-store.myshopify.com',
+  storefrontAccessToken: 'storefront-token',
+};
+
+// ---------------------------------------------------------------------------
+// fetchLiveProducts
+// ---------------------------------------------------------------------------
+
+describe('fetchLiveProducts', () => {
+  it('maps product and variant nodes and flags deleted IDs', async () => {
+    const fetchMock = createNodesFetch({
+      'gid://shopify/Product/1': productNode('gid://shopify/Product/1'),
+      'gid://shopify/ProductVariant/2': {
+        __typename: 'ProductVariant',
+        id: 'gid://shopify/ProductVariant/2',
+        title: 'Large',
+        availableForSale: false,
+        image: null,
+        price: { amount: '12.00', currencyCode: 'EUR' },
+        product: {
+          title: 'Shirt',
+          handle: 'shirt',
+          featuredImage: { url: 'https://cdn.test/shirt.jpg', altText: 'Shirt' },
+        },
+      },
+    });
+
+    const result = await fetchLiveProducts({ ...baseConfig, fetch: fetchMock }, [
+      'gid://shopify/Product/1',
+      'gid://shopify/ProductVariant/2',
+      'gid://shopify/Product/404',
+    ]);
+
+    expect(result['gid://shopify/Product/1']).toEqual({
+      productTitle: 'New Title',
+      productHandle: 'new-handle',
+      image: { url: 'https://cdn.test/new.jpg', altText: undefined },
+      price: { amount: '40.00', currencyCode: 'USD' },
+      availableForSale: true,
+    });
+    expect(result['gid://shopify/ProductVariant/2']).toMatchObject({
+      productTitle: 'Shirt',
+      variantTitle: 'Large',
+      image: { url: 'https://cdn.test/shirt.jpg', altText: 'Shirt' },
+      price: { amount: '12.00', currencyCode: 'EUR' },
+      availableForSale: false,
+    });
+    expect(result['gid://shopify/Product/404']).toBeNull();
+  });
+
+  it('requests quantityAvailable only with trackInventory', async () => {
+    const fetchMock = createNodesFetch({
+      'gid://shopify/ProductVariant/2': {
+        __typename: 'ProductVariant',
+        id: 'gid://shopify/ProductVariant/2',
+        title: 'Default Title',
+        availableForSale: true,
+        quantityAvailable: 3,
+        product: { title: 'Shirt', handle: 'shirt' },
+      },
+    });
+
+    await fetchLiveProducts({ ...baseConfig, fetch: fetchMock }, ['gid://shopify/ProductVariant/2']);
+    const result = await fetchLiveProducts(
+      { ...baseConfig, fetch: fetchMock, trackInventory: true },
+      ['gid://shopify/ProductVariant/2'],
+    );
+
+    const queryOf = (call: number) =>
+      (JSON.parse(fetchMock.mock.calls[call]?.[1]?.body as string) as { query: string }).query;
+    expect(queryOf(0)).not.toContain('quantityAvailable');
+    expect(queryOf(1)).toContain('quantityAvailable');
+    expect(result['gid://shopify/ProductVariant/2']).toMatchObject({
+      variantTitle: null,
+      quantityAvailable: 3,
+    });
+  });
+
+  it('batches IDs and skips non-GIDs', async () => {
+    const fetchMock = createNodesFetch({});
+    const ids = Array.from(
+      { length: STOREFRONT_NODES_LIMIT + 1 },
+      (_, i) => `gid://shopify/Product/${i}`,
+    );
+
+    const result = await fetchLiveProducts({ ...baseConfig, fetch: fetchMock }, [...ids, '123']);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(Object.keys(result)).toHaveLength(ids.length);
+    expect(result['123']).toBeUndefined();
+  });
+
+  it('prices nodes in the buyer context', async () => {
+    const fetchMock = createNodesFetch({});
+
+    await fetchLiveProducts(
+      { ...baseConfig, fetch: fetchMock, country: 'CA', language: 'FR' },
+      ['gid://shopify/Product/1'],
+    );
+
+    const body = JSON.parse(fetchMock.mock.calls[0]?.[1]?.body as string) as {
+      query: string;
+      variables: Record<string, unknown>;
+    };
+    expect(body.query).toContain('@inContext(country: $country, language: $language)');
+    expect(body.variables).toMatchObject({ country: 'CA', language: 'FR' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// loadLiveProducts
+// ---------------------------------------------------------------------------
+
+describe('loadLiveProducts', () => {
+  let store: Record<string, string>;
+
+  beforeEach(() => {
+    store = {};
+    vi.stubGlobal('window', {
+      sessionStorage: {
+        getItem: (key: string) => store[key] ?? null,
+        setItem: (key: string, value: string) => {
+          store[key] = value;
+        },
+        removeItem: (key: string) => {
+          delete store[key];
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('serves cached entries for the rest of the session', async () => {
+    const fetchMock = createNodesFetch({
+      'gid://shopify/Product/1': productNode('gid://shopify/Product/1'),
+    });
+    const config = { ...baseConfig, fetch: fetchMock };
+
+    await loadLiveProducts(config, ['gid://shopify/Product/1', 'gid://shopify/Product/404']);
+    const cached = await loadLiveProducts(config, [
+      'gid://shopify/Product/1',
+      'gid://shopify/Product/404',
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(cached['gid://shopify/Product/1']?.productTitle).toBe('New Title');
+    expect(cached['gid://shopify/Product/404']).toBeNull();
+    expect(store[STORAGE_KEYS.liveProducts]).toBeDefined();
+  });
+
+  it('refetches expired entries', async () => {
+    vi.useFakeTimers();
+    const fetchMock = createNodesFetch({
+      'gid://shopify/Product/1': productNode('gid://shopify/Product/1'),
+    });
+    const config = { ...baseConfig, fetch: fetchMock };
+
+    await loadLiveProducts(config, ['gid://shopify/Product/1']);
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    await loadLiveProducts(config, ['gid://shopify/Product/1']);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches entries per market', async () => {
+    const fetchMock = createNodesFetch({
+      'gid://shopify/Product/1': productNode('gid://shopify/Product/1'),
+    });
+
+    await loadLiveProducts({ ...baseConfig, fetch: fetchMock, country: 'US' }, [
+      'gid://shopify/Product/1',
+    ]);
+    await loadLiveProducts({ ...baseConfig, fetch: fetchMock, country: 'CA' }, [
+      'gid://shopify/Product/1',
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// overlayLiveProduct
+// ---------------------------------------------------------------------------
+
+describe('overlayLiveProduct', () => {
+  const live: LiveProductData = {
+    productTitle: 'New Title',
+    productHandle: 'new-handle',
+    price: { amount: '40.00', currencyCode: 'USD' },
+    availableForSale: true,
+  };
+
+  it('overlays current data and keeps the saved addedAt', () => {
+    expect(overlayLiveProduct(makeItem(), live)).toMatchObject({
+      productTitle: 'New Title',
+      productHandle: 'new-handle',
+      price: { amount: '40.00' },
+      availableForSale: true,
+      addedAt: '2024-01-15T12:00:00Z',
+    });
+  });
+
+  it('flags deleted products', () => {
+    expect(overlayLiveProduct(makeItem(), null)).toMatchObject({
+      productTitle: 'Old Title',
+      isDeleted: true,
+      availableForSale: false,
+    });
+  });
+
+  it('leaves items without live data untouched', () => {
+    const item = makeItem();
+    expect(overlayLiveProduct(item, undefined)).toBe(item);
+  });
+});
+
+describe('live product helpers', () => {
+  it('looks up variants before products', () => {
+    expect(getLiveProductId({ productId: 'p1', variantId: 'v1' })).toBe('v1');
+    expect(getLiveProductId({ productId: 'p1' })).toBe('p1');
+  });
+
+  it('needs a Storefront token and allows opting out', () => {
+    expect(canHydrateProducts(baseConfig)).toBe(true);
+    expect(canHydrateProducts({ ...baseConfig, hydrateProducts: false })).toBe(false);
+    expect(canHydrateProducts({ shopDomain: 'my-store.myshopify.com' })).toBe(false);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * hydrogen-wishlist merge confirmation tests
+ *
+ * @vitest-environment happy-dom
+ */
+
+import { act, fireEvent, render, renderHook, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+
+import { WishlistMergePrompt } from '../components/WishlistMergePrompt.js';
+import { useWishlistContext } from '../components/WishlistProvider.js';
+import { useWishlistMerge } from '../hooks/useWishlistMerge.js';
+import { getStoredItems, removeStoredItem } from '../utils/storage.js';
+import { makeItem } from './fixtures.js';
+import { CUSTOMER_ID, productIds, setupProvider } from './provider.js';
+
+import type { WishlistItem } from '../types.js';
+
+const itemA = makeItem({ productId: 'gid://shopify/Product/1', productTitle: 'Product A' });
+const itemB = makeItem({ productId: 'gid://shopify/Product/2', productTitle: 'Product B' });
+const itemC = makeItem({ productId: 'gid://shopify/Product/3', productTitle: 'Product C' });
+
+/**
+ * Provider for a customer who just logged in, with guest items saved in
+ * this browser
+ */
+const setup = (accountItems: WishlistItem[], guestItems: WishlistItem[]) =>
+  setupProvider(accountItems, { guestItems, config: { confirmMerge: true } });
+
+const useMergeState = () => ({ merge: useWishlistMerge(), context: useWishlistContext() });
+
+// ---------------------------------------------------------------------------
+// useWishlistMerge
+// ---------------------------------------------------------------------------
+
+describe('useWishlistMerge', () => {
+  it('offers only guest items the account lacks and merges them on confirm', async () => {
+    const { backend, guestStorage, wrapper } = await setup([itemA], [itemA, itemB]);
+    const { result } = renderHook(useMergeState, { wrapper });
+
+    await waitFor(() => expect(result.current.merge.hasPendingMerge).toBe(true));
+    expect(result.current.merge.newItems).toEqual([itemB]);
+
+    let merged: boolean | undefined;
+    await act(async () => {
+      merged = await result.current.merge.merge();
+    });
+
+    expect(merged).toBe(true);
+    expect(productIds(backend.getItems(CUSTOMER_ID))).toEqual(productIds([itemA, itemB]));
+    expect(productIds(result.current.context.items)).toEqual(productIds([itemA, itemB]));
+    expect(await getStoredItems(guestStorage)).toEqual([]);
+    expect(result.current.merge.hasPendingMerge).toBe(false);
+  });
+
+  it('merges only the picked items and sends no guest removals', async () => {
+    const { backend, guestStorage, wrapper } = await setup([itemA], [itemB, itemC]);
+    // A removal from an earlier guest session
+    await removeStoredItem(itemA.productId, undefined, guestStorage);
+    const { result } = renderHook(useMergeState, { wrapper });
+
+    await waitFor(() => expect(result.current.merge.newItems).toHaveLength(2));
+    await act(async () => {
+      await result.current.merge.merge([itemB]);
+    });
+
+    const syncs = backend.requests.filter((request) => request.endpoint === 'sync');
+    expect(syncs.at(-1)?.body['guestRemoved']).toBeUndefined();
+    expect(productIds(backend.getItems(CUSTOMER_ID))).toEqual(productIds([itemA, itemB]));
+    expect(await getStoredItems(guestStorage)).toEqual([]);
+  });
+
+  it('keeps the guest items when the sync fails', async () => {
+    const { backend, guestStorage, wrapper } = await setup([itemA], [itemB]);
+    const { result } = renderHook(useMergeState, { wrapper });
+
+    await waitFor(() => expect(result.current.merge.hasPendingMerge).toBe(true));
+    backend.failNext({ type: 'status', status: 500, endpoint: 'sync' });
+
+    let merged: boolean | undefined;
+    await act(async () => {
+      merged = await result.current.merge.merge();
+    });
+
+    expect(merged).toBe(false);
+    expect(result.current.context.error).toBeDefined();
+    expect(result.current.merge.hasPendingMerge).toBe(true);
+    expect(await getStoredItems(guestStorage)).toEqual([itemB]);
+    expect(backend.getItems(CUSTOMER_ID)).toEqual([itemA]);
+  });
+
+  it('discards the guest items without touching the account', async () => {
+    const { backend, guestStorage, wrapper } = await setup([itemA], [itemB]);
+    const { result } = renderHook(useMergeState, { wrapper });
+
+    await waitFor(() => expect(result.current.merge.hasPendingMerge).toBe(true));
+    await act(async () => {
+      await result.current.merge.discard();
+    });
+
+    expect(result.current.merge.hasPendingMerge).toBe(false);
+    expect(await getStoredItems(guestStorage)).toEqual([]);
+    expect(backend.getItems(CUSTOMER_ID)).toEqual([itemA]);
+  });
+
+  it('clears guest items the account already has', async () => {
+    const { guestStorage, wrapper } = await setup([itemA, itemB], [itemB]);
+    const { result } = renderHook(useMergeState, { wrapper });
+
+    await waitFor(async () => expect(await getStoredItems(guestStorage)).toEqual([]));
+    expect(result.current.merge.guestItems).toEqual([]);
+    expect(result.current.merge.hasPendingMerge).toBe(false);
+  });
+
+  it('does not offer guest items removed on the account', async () => {
+    const { wrapper } = await setupProvider([itemA], {
+      guestItems: [itemB, itemC],
+      config: { confirmMerge: true },
+      accountRemoved: [{ productId: itemB.productId, removedAt: '2024-02-01T00:00:00Z' }],
+    });
+    const { result } = renderHook(useMergeState, { wrapper });
+
+    await waitFor(() => expect(result.current.merge.hasPendingMerge).toBe(true));
+    expect(result.current.merge.newItems).toEqual([itemC]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// WishlistMergePrompt
+// ---------------------------------------------------------------------------
+
+describe('WishlistMergePrompt', () => {
+  it('merges the checked items', async () => {
+    const { backend, wrapper } = await setup([itemA], [itemB, itemC]);
+    const onMerge = vi.fn();
+    render(<WishlistMergePrompt onMerge={onMerge} />, { wrapper });
+
+    fireEvent.click(await screen.findByLabelText('Product C'));
+    fireEvent.click(screen.getByRole('button', { name: 'Add selected' }));
+
+    await waitFor(() => expect(onMerge).toHaveBeenCalledWith([itemB]));
+    expect(productIds(backend.getItems(CUSTOMER_ID))).toEqual(productIds([itemA, itemB]));
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+
+  it('stays open without calling onMerge when the merge fails', async () => {
+    const { backend, wrapper } = await setup([itemA], [itemB]);
+    const onMerge = vi.fn();
+    render(<WishlistMergePrompt onMerge={onMerge} />, { wrapper });
+
+    const button = await screen.findByRole('button', { name: 'Add selected' });
+    backend.failNext({ type: 'status', status: 500, endpoint: 'sync' });
+    fireEvent.click(button);
+
+    await waitFor(() => expect(button.hasAttribute('disabled')).toBe(false));
+    expect(onMerge).not.toHaveBeenCalled();
+    expect(screen.getByRole('dialog')).toBeDefined();
+  });
+
+  it('calls onDiscard after dropping the guest items', async () => {
+    const { guestStorage, wrapper } = await setup([itemA], [itemB]);
+    const onDiscard = vi.fn();
+    render(<WishlistMergePrompt onDiscard={onDiscard} />, { wrapper });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Not mine' }));
+
+    await waitFor(() => expect(onDiscard).toHaveBeenCalled());
+    expect(await getStoredItems(guestStorage)).toEqual([]);
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+});
@@ -0,0 +1,454 @@
+/**
+ * hydrogen-wishlist provider tests
+ *
+ * @vitest-environment happy-dom
+ */
+
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+
+import { useWishlistContext } from '../components/WishlistProvider.js';
+import { enqueueOperation, getPendingOperations } from '../utils/queue.js';
+import { getStoredItems } from '../utils/storage.js';
+import { makeItem } from './fixtures.js';
+import { CUSTOMER_ID, productIds, setupProvider } from './provider.js';
+
+import type { HydratedWishlistItem, WishlistItem } from '../types.js';
+import type { MockWishBridge } from '../utils/mock.js';
+
+const itemA = makeItem({ productId: 'gid://shopify/Product/1', productTitle: 'Product A' });
+const productB = { id: 'gid://shopify/Product/2', title: 'Product B' };
+const productC = { id: 'gid://shopify/Product/3', title: 'Product C' };
+
+const updateRequests = (backend: MockWishBridge) =>
+  backend.requests.filter((request) => request.endpoint === 'update');
+
+// ---------------------------------------------------------------------------
+// offline queue
+// ---------------------------------------------------------------------------
+
+describe('WishlistProvider offline queue', () => {
+  it('queues updates the backend cannot receive and replays them when online', async () => {
+    const { backend, guestStorage, wrapper } = await setupProvider([itemA]);
+    const { result } = renderHook(useWishlistContext, { wrapper });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    backend.failNext({ type: 'network', endpoint: 'update' });
+    await act(() => result.current.add(productB));
+
+    expect(result.current.pendingOperations).toBe(1);
+    expect(result.current.error).toBeUndefined();
+    expect(productIds(result.current.items)).toEqual([itemA.productId, productB.id]);
+    expect(productIds(backend.getItems(CUSTOMER_ID))).toEqual([itemA.productId]);
+
+    await act(async () => {
+      window.dispatchEvent(new Event('online'));
+    });
+
+    await waitFor(() => expect(result.current.pendingOperations).toBe(0));
+    expect(productIds(backend.getItems(CUSTOMER_ID))).toEqual([itemA.productId, productB.id]);
+    expect(await getPendingOperations(CUSTOMER_ID, guestStorage)).toEqual([]);
+  });
+
+  it('replays operations queued in an earlier visit on load', async () => {
+    const { backend, guestStorage, wrapper } = await setupProvider([itemA]);
+    await enqueueOperation(
+      {
+        action: 'remove',
+        item: { productId: itemA.productId },
+        customerId: CUSTOMER_ID,
+        queuedAt: '2024-01-15T12:00:00Z',
+      },
+      guestStorage,
+    );
+
+    const { result } = renderHook(useWishlistContext, { wrapper });
+
+    await waitFor(() => expect(backend.getItems(CUSTOMER_ID)).toEqual([]));
+    await waitFor(() => expect(result.current.pendingOperations).toBe(0));
+    expect(result.current.items).toEqual([]);
+  });
+
+  it('keeps later updates behind queued ones', async () => {
+    const { backend, wrapper } = await setupProvider([itemA]);
+    const { result } = renderHook(useWishlistContext, { wrapper });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    backend.failNext({ type: 'network', endpoint: 'update' });
+    await act(() => result.current.add(productB));
+    backend.failNext({ type: 'network', endpoint: 'update' });
+    await act(() => result.current.remove(productB.id));
+
+    // The replay that follows the second update fails too
+    await waitFor(() => expect(updateRequests(backend)).toHaveLength(2));
+    expect(result.current.pendingOperations).toBe(1);
+    expect(productIds(result.current.items)).toEqual([itemA.productId]);
+
+    await act(async () => {
+      window.dispatchEvent(new Event('online'));
+    });
+
+    await waitFor(() => expect(result.current.pendingOperations).toBe(0));
+    expect(productIds(backend.getItems(CUSTOMER_ID))).toEqual([itemA.productId]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// update batching
+// ---------------------------------------------------------------------------
+
+describe('WishlistProvider update batching', () => {
+  it('sends rapid updates as one batch', async () => {
+    const { backend, wrapper } = await setupProvider([itemA], { config: { batchWindowMs: 50 } });
+    const { result } = renderHook(useWishlistContext, { wrapper });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(() =>
+      Promise.all([
+        result.current.add(productB),
+        result.current.add(productC),
+        result.current.remove(itemA.productId),
+      ]),
+    );
+
+    expect(updateRequests(backend)).toHaveLength(1);
+    expect(updateRequests(backend)[0]?.body['operations']).toHaveLength(3);
+    expect(productIds(backend.getItems(CUSTOMER_ID))).toEqual([productB.id, productC.id]);
+  });
+
+  it('reconciles with the list the backend returns', async () => {
+    const { backend, wrapper } = await setupProvider([itemA]);
+    const { result } = renderHook(useWishlistContext, { wrapper });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    // Saved from another device since the list was loaded
+    const itemD = makeItem({ productId: 'gid://shopify/Product/4' });
+    backend.setItems(CUSTOMER_ID, [itemA, itemD]);
+    await act(() => result.current.add(productB));
+
+    expect(productIds(result.current.items)).toEqual([
+      itemA.productId,
+      productB.id,
+      itemD.productId,
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// account removals
+// ---------------------------------------------------------------------------
+
+describe('WishlistProvider account removals', () => {
+  it('leaves items removed on the account out of the optimistic merge', async () => {
+    const { backend, wrapper } = await setupProvider([itemA], {
+      guestItems: [makeItem({ productId: productB.id })],
+      accountRemoved: [{ productId: productB.id, removedAt: '2024-02-01T00:00:00Z' }],
+    });
+    // Keep the backend's merge from replacing the optimistic list
+    backend.failNext({ type: 'network', endpoint: 'sync' });
+    const { result } = renderHook(useWishlistContext, { wrapper });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(productIds(result.current.items)).toEqual([itemA.productId]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// guest limits
+// ---------------------------------------------------------------------------
+
+describe('WishlistProvider guest limits', () => {
+  const olderItem = makeItem({ productId: productC.id, addedAt: '2024-01-01T00:00:00Z' });
+
+  it('reports wishlist_full and keeps the items when the list is full', async () => {
+    const { guestStorage, wrapper } = await setupProvider([], {
+      guestItems: [itemA],
+      config: { customerId: undefined, guestLimits: { maxItems: 1 } },
+    });
+    const { result } = renderHook(useWishlistContext, { wrapper });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(() => result.current.add(productB));
+
+    expect(result.current.errorCode).toBe('wishlist_full');
+    expect(result.current.items).toEqual([itemA]);
+    expect(await getStoredItems(guestStorage)).toEqual([itemA]);
+  });
+
+  it('evicts the oldest item to make room when eviction is enabled', async () => {
+    const { guestStorage, wrapper } = await setupProvider([], {
+      guestItems: [itemA, olderItem],
+      config: { customerId: undefined, guestLimits: { maxItems: 2, eviction: 'oldest' } },
+    });
+    const { result } = renderHook(useWishlistContext, { wrapper });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(() => result.current.add(productB));
+
+    expect(result.current.error).toBeUndefined();
+    expect(productIds(result.current.items)).toEqual([itemA.productId, productB.id]);
+    expect(productIds(await getStoredItems(guestStorage))).toEqual([
+      itemA.productId,
+      productB.id,
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// initialItems
+// ---------------------------------------------------------------------------
+
+describe('WishlistProvider initialItems', () => {
+  it('renders server-loaded items on first paint without fetching them again', async () => {
+    const { backend, createWrapper } = await setupProvider([itemA]);
+    const { result } = renderHook(useWishlistContext, { wrapper: createWrapper([itemA]) });
+
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.items).toEqual([itemA]);
+    expect(result.current.isWishlisted(itemA.productId)).toBe(true);
+
+    await act(async () => {});
+    expect(backend.requests.filter((request) => request.endpoint === 'sync')).toEqual([]);
+  });
+
+  it('applies queued operations on top of the server-loaded items', async () => {
+    const { backend, guestStorage, createWrapper } = await setupProvider([itemA]);
+    // Keep the queued add from reaching the backend
+    backend.failNext({ type: 'network', endpoint: 'update' });
+    await enqueueOperation(
+      {
+        action: 'add',
+        item: makeItem({ productId: productB.id }),
+        customerId: CUSTOMER_ID,
+        queuedAt: '2024-01-15T12:00:00Z',
+      },
+      guestStorage,
+    );
+
+    const { result } = renderHook(useWishlistContext, { wrapper: createWrapper([itemA]) });
+
+    await waitFor(() =>
+      expect(productIds(result.current.items)).toEqual([itemA.productId, productB.id]),
+    );
+    await waitFor(() => expect(result.current.pendingOperations).toBe(1));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// delta sync
+// ---------------------------------------------------------------------------
+
+describe('WishlistProvider delta sync', () => {
+  it('fetches only changes since the last sync on the next visit', async () => {
+    const { backend, wrapper } = await setupProvider([itemA]);
+    const first = renderHook(useWishlistContext, { wrapper });
+    await waitFor(() => expect(first.result.current.isLoading).toBe(false));
+    first.unmount();
+
+    // Saved from another device between visits
+    const itemD = makeItem({ productId: 'gid://shopify/Product/4' });
+    backend.setItems(CUSTOMER_ID, [itemA, itemD]);
+
+    const { result } = renderHook(useWishlistContext, { wrapper });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    const syncs = backend.requests.filter((request) => request.endpoint === 'sync');
+    expect(syncs).toHaveLength(2);
+    expect(syncs[0]?.body['since']).toBeUndefined();
+    expect(syncs[1]?.body['since']).toEqual(expect.any(String));
+    expect(productIds(result.current.items)).toEqual([itemA.productId, itemD.productId]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// custom merge
+// ---------------------------------------------------------------------------
+
+describe('WishlistProvider custom merge', () => {
+  const guestItem = makeItem({ productId: productB.id, productTitle: productB.title });
+
+  it("saves the resolver's list in place of the account's", async () => {
+    const { backend, wrapper } = await setupProvider([itemA], {
+      guestItems: [guestItem],
+      config: { mergeStrategy: async (guestItems) => guestItems },
+    });
+    const { result } = renderHook(useWishlistContext, { wrapper });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    const syncs = backend.requests.filter((request) => request.endpoint === 'sync');
+    expect(syncs.at(-1)?.body).toMatchObject({ guestItems: [guestItem], replace: true });
+    expect(syncs.at(-1)?.body['mergeStrategy']).toBeUndefined();
+    expect(productIds(backend.getItems(CUSTOMER_ID))).toEqual([productB.id]);
+    expect(productIds(result.current.items)).toEqual([productB.id]);
+  });
+
+  it('empties the account when the resolver returns an empty list', async () => {
+    const { backend, wrapper } = await setupProvider([itemA], {
+      guestItems: [guestItem],
+      config: { mergeStrategy: async () => [] },
+    });
+    const { result } = renderHook(useWishlistContext, { wrapper });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(backend.getItems(CUSTOMER_ID)).toEqual([]);
+    expect(result.current.items).toEqual([]);
+  });
+
+  it("passes the resolver the account's current list, not the server-loaded one", async () => {
+    const resolver = vi.fn(async (guestItems: WishlistItem[], customerItems: WishlistItem[]) => [
+      ...customerItems,
+      ...guestItems,
+    ]);
+    const { backend, createWrapper } = await setupProvider([itemA], {
+      guestItems: [guestItem],
+      config: { mergeStrategy: resolver },
+    });
+    // Saved from another device after the page was rendered
+    const itemD = makeItem({ productId: 'gid://shopify/Product/4' });
+    backend.setItems(CUSTOMER_ID, [itemA, itemD]);
+
+    const { result } = renderHook(useWishlistContext, { wrapper: createWrapper([itemA]) });
+
+    await waitFor(() => expect(resolver).toHaveBeenCalledTimes(1));
+    expect(productIds(resolver.mock.calls[0]?.[1] ?? [])).toEqual([
+      itemA.productId,
+      itemD.productId,
+    ]);
+    await waitFor(() =>
+      expect(productIds(result.current.items)).toEqual([
+        itemA.productId,
+        productB.id,
+        itemD.productId,
+      ]),
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// back in stock
+// ---------------------------------------------------------------------------
+
+describe('WishlistProvider onBackInStock', () => {
+  /**
+   * Storefront API stand-in answering `nodes` queries with the current
+   * availability
+   */
+  const createStorefront = () => {
+    const storefront = {
+      availableForSale: false,
+      fetch: (async (_input: RequestInfo | URL, init?: RequestInit) => {
+        const { variables } = JSON.parse(init?.body as string) as { variables: { ids: string[] } };
+        const nodes = variables.ids.map((id) => ({
+          __typename: 'Product',
+          id,
+          title: 'Product A',
+          handle: 'product-a',
+          availableForSale: storefront.availableForSale,
+        }));
+        return new Response(JSON.stringify({ data: { nodes } }), { status: 200 });
+      }) as typeof fetch,
+    };
+    return storefront;
+  };
+
+  const setupGuest = (
+    storefront: ReturnType<typeof createStorefront>,
+    onBackInStock: (item: HydratedWishlistItem) => void,
+  ) => {
+    // Live product data is cached for the session
+    window.sessionStorage.clear();
+    return setupProvider([], {
+      guestItems: [itemA],
+      config: {
+        customerId: undefined,
+        storefrontAccessToken: 'storefront-token',
+        fetch: storefront.fetch,
+      },
+      onBackInStock,
+    });
+  };
+
+  it('does not fire for items seen for the first time', async () => {
+    const storefront = createStorefront();
+    storefront.availableForSale = true;
+    const onBackInStock = vi.fn();
+    const { wrapper } = await setupGuest(storefront, onBackInStock);
+
+    const { result } = renderHook(useWishlistContext, { wrapper });
+
+    await waitFor(() => expect(result.current.items[0]?.availableForSale).toBe(true));
+    await act(async () => {});
+    expect(onBackInStock).not.toHaveBeenCalled();
+  });
+
+  it('fires when an item sold out on an earlier visit is available again', async () => {
+    const storefront = createStorefront();
+    const onBackInStock = vi.fn();
+    const { wrapper } = await setupGuest(storefront, onBackInStock);
+
+    const first = renderHook(useWishlistContext, { wrapper });
+    await waitFor(() => expect(first.result.current.items[0]?.availableForSale).toBe(false));
+    await act(async () => {});
+    first.unmount();
+
+    storefront.availableForSale = true;
+    window.sessionStorage.clear();
+    renderHook(useWishlistContext, { wrapper });
+
+    await waitFor(() => expect(onBackInStock).toHaveBeenCalledTimes(1));
+    expect(onBackInStock).toHaveBeenCalledWith(
+      expect.objectContaining({ productId: itemA.productId, availableForSale: true }),
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// tab sync
+// ---------------------------------------------------------------------------
+
+describe('WishlistProvider tab sync', () => {
+  it("shows a customer's changes in their other tabs", async () => {
+    const { wrapper } = await setupProvider([itemA]);
+    const first = renderHook(useWishlistContext, { wrapper });
+    const second = renderHook(useWishlistContext, { wrapper });
+    await waitFor(() => expect(second.result.current.isLoading).toBe(false));
+    await waitFor(() => expect(first.result.current.isLoading).toBe(false));
+
+    await act(() => first.result.current.add(productB));
+
+    await waitFor(() =>
+      expect(productIds(second.result.current.items)).toEqual([itemA.productId, productB.id]),
+    );
+  });
+
+  it("shows a guest's changes in their other tabs", async () => {
+    const { wrapper } = await setupProvider([], { config: { customerId: undefined } });
+    const first = renderHook(useWishlistContext, { wrapper });
+    const second = renderHook(useWishlistContext, { wrapper });
+    await waitFor(() => expect(second.result.current.isLoading).toBe(false));
+    await waitFor(() => expect(first.result.current.isLoading).toBe(false));
+
+    await act(() => first.result.current.add(productB));
+    await waitFor(() => expect(productIds(second.result.current.items)).toEqual([productB.id]));
+
+    await act(() => second.result.current.remove(productB.id));
+    await waitFor(() => expect(first.result.current.items).toEqual([]));
+  });
+
+  it('ignores changes from tabs signed in as another customer', async () => {
+    const { wrapper } = await setupProvider([itemA]);
+    const other = await setupProvider([], {
+      config: { customerId: 'gid://shopify/Customer/2' },
+    });
+    const first = renderHook(useWishlistContext, { wrapper });
+    const second = renderHook(useWishlistContext, { wrapper: other.wrapper });
+    await waitFor(() => expect(second.result.current.isLoading).toBe(false));
+    await waitFor(() => expect(first.result.current.isLoading).toBe(false));
+
+    await act(() => first.result.current.add(productB));
+    // Give the broadcast time to arrive
+    await act(() => new Promise((resolve) => setTimeout(resolve, 50)));
+
+    expect(second.result.current.items).toEqual([]);
+  });
+});
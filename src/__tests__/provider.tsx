@@ -0,0 +1,106 @@
+/**
+ * Shared WishlistProvider test setup
+ */
+
+import { WishlistProvider } from '../components/WishlistProvider.js';
+import { createMemoryStorageAdapter, createScopedStorageAdapter } from '../utils/adapters.js';
+import { createMockWishBridge } from '../utils/mock.js';
+import { createWishlistEnvelope } from '../utils/schema.js';
+import { setStoredItems } from '../utils/storage.js';
+
+import type { WishlistProviderProps } from '../components/WishlistProvider.js';
+import type { WishBridgeConfig, WishlistItem, WishlistTombstone } from '../types.js';
+import type { ReactNode } from 'react';
+
+export const CUSTOMER_ID = 'gid://shopify/Customer/1';
+export const SHOP_DOMAIN = 'my-store.myshopify.com';
+
+export interface ProviderSetupOptions {
+  /**
+   * Items saved in this browser before the provider mounts
+   */
+  guestItems?: WishlistItem[];
+
+  /**
+   * Config overrides
+   */
+  config?: Partial<WishBridgeConfig>;
+
+  /**
+   * Provider `onBackInStock` callback
+   */
+  onBackInStock?: WishlistProviderProps['onBackInStock'];
+
+  /**
+   * Removals recorded in the customer's metafield. When set, the provider
+   * reads the account's list and these removals through the Storefront API.
+   */
+  accountRemoved?: WishlistTombstone[];
+}
+
+/**
+ * Provider for a logged-in customer whose list lives in a mock backend,
+ * with in-memory guest storage
+ */
+export const setupProvider = async (
+  accountItems: WishlistItem[],
+  {
+    guestItems = [],
+    config: overrides = {},
+    onBackInStock,
+    accountRemoved,
+  }: ProviderSetupOptions = {},
+) => {
+  const backend = createMockWishBridge({ items: { [CUSTOMER_ID]: accountItems } });
+  const storage = createMemoryStorageAdapter();
+  const guestStorage = createScopedStorageAdapter(storage, { shopDomain: SHOP_DOMAIN });
+  await setStoredItems(guestItems, guestStorage);
+
+  // Metafield reads are answered from the backend's list
+  const readMetafield = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    if (!String(input).endsWith('/graphql.json')) {
+      return backend.fetch(input, init);
+    }
+    const envelope = createWishlistEnvelope(
+      backend.getItems(CUSTOMER_ID),
+      undefined,
+      accountRemoved,
+    );
+    const customer = { id: CUSTOMER_ID, metafield: { value: JSON.stringify(envelope) } };
+    return new Response(JSON.stringify({ data: { customer } }), { status: 200 });
+  }) as typeof fetch;
+
+  const config: WishBridgeConfig = {
+    apiUrl: 'https://wishbridge.test',
+    shopDomain: SHOP_DOMAIN,
+    customerId: CUSTOMER_ID,
+    apiKey: 'wb_test',
+    retry: false,
+    batchWindowMs: 0,
+    fetch: backend.fetch,
+    guestStorage: storage,
+    ...(accountRemoved && {
+      customerAccessToken: 'customer-token',
+      storefrontAccessToken: 'storefront-token',
+      hydrateProducts: false,
+      fetch: readMetafield,
+    }),
+    ...overrides,
+  };
+  const createWrapper =
+    (initialItems?: WishlistItem[]) =>
+    ({ children }: { children: ReactNode }) => (
+      <WishlistProvider
+        config={config}
+        initialItems={initialItems}
+        onBackInStock={onBackInStock}
+      >
+        {children}
+      </WishlistProvider>
+    );
+
+  return { backend, guestStorage, wrapper: createWrapper(), createWrapper };
+};
+
+export const productIds = (items: Array<{ productId: string }>) =>
+  items.map((item) => item.productId).sort();
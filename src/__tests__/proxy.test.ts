@@ -0,0 +1,126 @@
+/**
+ * hydrogen-wishlist server proxy tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+import { getCustomerIdFromSession } from '../server/customerAccount.js';
+import { proxyWishlistRequest } from '../server/proxy.js';
+import { WishBridgeClient } from '../utils/client.js';
+import { createMockWishBridge } from '../utils/mock.js';
+import { makeItem } from './fixtures.js';
+
+const CUSTOMER_ID = 'gid://shopify/Customer/1';
+
+const post = (path: string, body: unknown): Request =>
+  new Request(`https://shop.test${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+const setup = (customerId: string | null = CUSTOMER_ID) => {
+  const backend = createMockWishBridge({
+    apiKey: 'wb_secret',
+    items: { [CUSTOMER_ID]: [makeItem({ productId: 'p1' })] },
+  });
+  const handle = (request: Request) =>
+    proxyWishlistRequest(request, {
+      apiKey: 'wb_secret',
+      shopDomain: 'my-store.myshopify.com',
+      customerId,
+      fetch: backend.fetch,
+    });
+  return { backend, handle };
+};
+
+// ---------------------------------------------------------------------------
+// proxyWishlistRequest
+// ---------------------------------------------------------------------------
+
+describe('proxyWishlistRequest', () => {
+  it('forwards with the secret key and session customer', async () => {
+    const { backend, handle } = setup();
+
+    const res = await handle(
+      post('/api/wishlist/sync', { guestItems: [], customerId: 'gid://shopify/Customer/999' }),
+    );
+
+    expect(res.status).toBe(200);
+    expect(backend.requests[0]?.headers['authorization']).toBe('Bearer wb_secret');
+    expect(backend.requests[0]?.body['customerId']).toBe(CUSTOMER_ID);
+    expect(backend.requests[0]?.body['shop']).toBe('my-store.myshopify.com');
+  });
+
+  it('rejects customer endpoints for guests', async () => {
+    const { handle } = setup(null);
+
+    const res = await handle(post('/api/wishlist/update', { action: 'add', item: makeItem() }));
+    expect(res.status).toBe(401);
+  });
+
+  it('accepts analytics events from guests', async () => {
+    const { backend, handle } = setup(null);
+
+    const res = await handle(post('/api/wishlist/event', { event: 'view', productId: 'p1' }));
+    expect(res.status).toBe(200);
+    expect(backend.events).toHaveLength(1);
+  });
+
+  it('returns 404 for unknown endpoints and 405 for non-POST', async () => {
+    const { handle } = setup();
+
+    expect((await handle(post('/api/wishlist/admin', {}))).status).toBe(404);
+    expect(
+      (await handle(new Request('https://shop.test/api/wishlist/sync'))).status,
+    ).toBe(405);
+  });
+
+  it('passes upstream status and Retry-After through', async () => {
+    const { backend, handle } = setup();
+    backend.failNext({ type: 'status', status: 429, retryAfter: 3 });
+
+    const res = await handle(post('/api/wishlist/sync', { guestItems: [] }));
+    expect(res.status).toBe(429);
+    expect(res.headers.get('Retry-After')).toBe('3');
+  });
+
+  it('serves a client configured with proxyUrl', async () => {
+    const { handle } = setup();
+    const client = new WishBridgeClient({
+      proxyUrl: '/api/wishlist',
+      shopDomain: 'my-store.myshopify.com',
+      customerId: CUSTOMER_ID,
+      retry: false,
+      fetch: (input, init) => handle(new Request(`https://shop.test${String(input)}`, init)),
+    });
+
+    const result = await client.update({ action: 'add', item: makeItem({ productId: 'p2' }) });
+    expect(result.items).toHaveLength(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getCustomerIdFromSession
+// ---------------------------------------------------------------------------
+
+describe('getCustomerIdFromSession', () => {
+  it('returns the customer ID when logged in', async () => {
+    const customerAccount = {
+      isLoggedIn: vi.fn().mockResolvedValue(true),
+      query: vi.fn().mockResolvedValue({ data: { customer: { id: CUSTOMER_ID } } }),
+    };
+
+    expect(await getCustomerIdFromSession(customerAccount)).toBe(CUSTOMER_ID);
+  });
+
+  it('returns null for guests', async () => {
+    const customerAccount = {
+      isLoggedIn: vi.fn().mockResolvedValue(false),
+      query: vi.fn(),
+    };
+
+    expect(await getCustomerIdFromSession(customerAccount)).toBeNull();
+    expect(customerAccount.query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * hydrogen-wishlist offline queue tests
+ */
+
+import { beforeEach, describe, it, expect } from 'vitest';
+
+import { createMemoryStorageAdapter, createScopedStorageAdapter } from '../utils/adapters.js';
+import {
+  clearPendingOperations,
+  enqueueOperation,
+  getPendingOperations,
+  removePendingOperation,
+} from '../utils/queue.js';
+import { makeItem } from './fixtures.js';
+
+import type { PendingOperation, WishlistStorageAdapter } from '../types.js';
+
+const makeOperation = (
+  overrides: Partial<PendingOperation> = {},
+): PendingOperation => ({
+  action: 'add',
+  item: makeItem(),
+  customerId: 'c1',
+  queuedAt: '2024-01-15T12:00:00Z',
+  ...overrides,
+});
+
+let storage: WishlistStorageAdapter;
+
+beforeEach(() => {
+  storage = createMemoryStorageAdapter();
+});
+
+// ---------------------------------------------------------------------------
+// enqueueOperation
+// ---------------------------------------------------------------------------
+
+describe('enqueueOperation', () => {
+  it('keeps operations in order', async () => {
+    await enqueueOperation(makeOperation({ item: makeItem({ productId: 'p1' }) }), storage);
+    await enqueueOperation(makeOperation({ item: makeItem({ productId: 'p2' }) }), storage);
+
+    const queue = await getPendingOperations('c1', storage);
+    expect(queue.map((op) => op.item.productId)).toEqual(['p1', 'p2']);
+  });
+
+  it('collapses operations on the same item to the latest', async () => {
+    await enqueueOperation(makeOperation({ item: makeItem({ productId: 'p1' }) }), storage);
+    await enqueueOperation(makeOperation({ item: makeItem({ productId: 'p2' }) }), storage);
+    await enqueueOperation(
+      makeOperation({ action: 'remove', item: { productId: 'p1' } }),
+      storage,
+    );
+
+    const queue = await getPendingOperations('c1', storage);
+    expect(queue).toHaveLength(2);
+    expect(queue[1]).toMatchObject({ action: 'remove', item: { productId: 'p1' } });
+  });
+
+  it('scopes operations per customer', async () => {
+    await enqueueOperation(makeOperation({ customerId: 'c1' }), storage);
+    await enqueueOperation(makeOperation({ customerId: 'c2' }), storage);
+
+    expect(await getPendingOperations('c1', storage)).toHaveLength(1);
+    expect(await getPendingOperations('c2', storage)).toHaveLength(1);
+  });
+
+  it('keeps shops sharing a storage apart', async () => {
+    const shopA = createScopedStorageAdapter(storage, { shopDomain: 'a.myshopify.com' });
+    const shopB = createScopedStorageAdapter(storage, { shopDomain: 'b.myshopify.com' });
+
+    await enqueueOperation(makeOperation(), shopA);
+
+    expect(await getPendingOperations('c1', shopA)).toHaveLength(1);
+    expect(await getPendingOperations('c1', shopB)).toEqual([]);
+  });
+
+  it('does not lose concurrent operations', async () => {
+    await Promise.all([
+      enqueueOperation(makeOperation({ item: makeItem({ productId: 'p1' }) }), storage),
+      enqueueOperation(makeOperation({ item: makeItem({ productId: 'p2' }) }), storage),
+    ]);
+
+    expect(await getPendingOperations('c1', storage)).toHaveLength(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// removePendingOperation / clearPendingOperations
+// ---------------------------------------------------------------------------
+
+describe('removePendingOperation', () => {
+  it('removes a sent operation', async () => {
+    const op = makeOperation();
+    await enqueueOperation(op, storage);
+
+    expect(await removePendingOperation(op, storage)).toEqual([]);
+  });
+
+  it('keeps a newer operation on the same item', async () => {
+    const first = makeOperation({ queuedAt: '2024-01-15T12:00:00Z' });
+    const second = makeOperation({ action: 'remove', queuedAt: '2024-01-15T12:01:00Z' });
+    await enqueueOperation(first, storage);
+    await enqueueOperation(second, storage);
+
+    expect(await removePendingOperation(first, storage)).toEqual([second]);
+  });
+});
+
+describe('clearPendingOperations', () => {
+  it('only clears the given customer', async () => {
+    await enqueueOperation(makeOperation({ customerId: 'c1' }), storage);
+    await enqueueOperation(makeOperation({ customerId: 'c2' }), storage);
+    await clearPendingOperations('c1', storage);
+
+    expect(await getPendingOperations('c1', storage)).toHaveLength(0);
+    expect(await getPendingOperations('c2', storage)).toHaveLength(1);
+  });
+});
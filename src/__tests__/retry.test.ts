@@ -0,0 +1,105 @@
+/**
+ * hydrogen-wishlist retry utility tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { WishBridgeError } from '../utils/errors.js';
+import {
+  computeRetryDelay,
+  isRetryableError,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from '../utils/retry.js';
+
+// ---------------------------------------------------------------------------
+// resolveRetryPolicy
+// ---------------------------------------------------------------------------
+
+describe('resolveRetryPolicy', () => {
+  it('applies defaults', () => {
+    expect(resolveRetryPolicy(undefined)).toEqual({
+      maxAttempts: 3,
+      backoff: 'exponential',
+      baseDelayMs: 500,
+      maxDelayMs: 10000,
+      jitter: 'full',
+    });
+  });
+
+  it('disables retries when false', () => {
+    expect(resolveRetryPolicy(false).maxAttempts).toBe(1);
+  });
+
+  it('never allows fewer than one attempt', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 0 }).maxAttempts).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// isRetryableError
+// ---------------------------------------------------------------------------
+
+describe('isRetryableError', () => {
+  it('retries network, timeout and rate limit errors', () => {
+    expect(isRetryableError(new WishBridgeError('network', 'x'))).toBe(true);
+    expect(isRetryableError(new WishBridgeError('timeout', 'x'))).toBe(true);
+    expect(isRetryableError(new WishBridgeError('rate_limited', 'x', 429))).toBe(true);
+  });
+
+  it('retries 5xx but not 4xx', () => {
+    expect(isRetryableError(new WishBridgeError('request_failed', 'x', 502))).toBe(true);
+    expect(isRetryableError(new WishBridgeError('request_failed', 'x', 404))).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// computeRetryDelay
+// ---------------------------------------------------------------------------
+
+describe('computeRetryDelay', () => {
+  const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 1000, jitter: 'none' });
+
+  it('doubles the delay for exponential backoff', () => {
+    expect(computeRetryDelay(1, policy)).toBe(100);
+    expect(computeRetryDelay(2, policy)).toBe(200);
+    expect(computeRetryDelay(3, policy)).toBe(400);
+  });
+
+  it('caps at maxDelayMs', () => {
+    expect(computeRetryDelay(10, policy)).toBe(1000);
+  });
+
+  it('grows linearly for linear backoff', () => {
+    expect(computeRetryDelay(3, { ...policy, backoff: 'linear' })).toBe(300);
+  });
+
+  it('keeps the base delay for constant backoff', () => {
+    expect(computeRetryDelay(3, { ...policy, backoff: 'constant' })).toBe(100);
+  });
+
+  it('applies full and equal jitter', () => {
+    expect(computeRetryDelay(2, { ...policy, jitter: 'full' }, () => 0.5)).toBe(100);
+    expect(computeRetryDelay(2, { ...policy, jitter: 'equal' }, () => 0)).toBe(100);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseRetryAfter
+// ---------------------------------------------------------------------------
+
+describe('parseRetryAfter', () => {
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000);
+  });
+
+  it('parses an HTTP date', () => {
+    const now = Date.parse('2024-01-15T12:00:00Z');
+    expect(parseRetryAfter('Mon, 15 Jan 2024 12:00:30 GMT', now)).toBe(30000);
+  });
+
+  it('returns undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * hydrogen-wishlist stored schema tests
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+
+import { createLocalStorageAdapter } from '../utils/adapters.js';
+import { STORAGE_KEYS, WISHLIST_SCHEMA_VERSION } from '../utils/constants.js';
+import {
+  createWishlistEnvelope,
+  getPayloadVersion,
+  migrateWishlistPayload,
+  parseWishlistPayload,
+} from '../utils/schema.js';
+import { getStoredItems, setStoredItems } from '../utils/storage.js';
+import { makeItem } from './fixtures.js';
+
+// ---------------------------------------------------------------------------
+// migrateWishlistPayload
+// ---------------------------------------------------------------------------
+
+describe('migrateWishlistPayload', () => {
+  it('upgrades bare arrays to the current envelope', () => {
+    expect(getPayloadVersion([makeItem()])).toBe(1);
+    expect(migrateWishlistPayload([makeItem(), { productId: 'p2' }])).toEqual({
+      version: WISHLIST_SCHEMA_VERSION,
+      items: [makeItem()],
+      updatedAt: new Date(0).toISOString(),
+    });
+  });
+
+  it('reads current envelopes as-is', () => {
+    const envelope = createWishlistEnvelope([makeItem()], '2024-02-01T00:00:00Z');
+    expect(migrateWishlistPayload(envelope)).toEqual(envelope);
+  });
+
+  it('keeps valid items from newer versions', () => {
+    expect(
+      migrateWishlistPayload({
+        version: WISHLIST_SCHEMA_VERSION + 1,
+        items: [makeItem()],
+        updatedAt: '2030-01-01T00:00:00Z',
+      })?.items,
+    ).toEqual([makeItem()]);
+  });
+
+  it('rejects payloads without a version', () => {
+    expect(migrateWishlistPayload({ items: [makeItem()] })).toBeUndefined();
+    expect(migrateWishlistPayload('nope')).toBeUndefined();
+  });
+});
+
+describe('parseWishlistPayload', () => {
+  it('returns empty for missing or malformed JSON', () => {
+    expect(parseWishlistPayload(null)).toEqual([]);
+    expect(parseWishlistPayload('{nope')).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// localStorage
+// ---------------------------------------------------------------------------
+
+describe('stored items', () => {
+  let store: Record<string, string>;
+
+  beforeEach(() => {
+    store = {};
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => store[key] ?? null,
+        setItem: (key: string, value: string) => {
+          store[key] = value;
+        },
+        removeItem: (key: string) => {
+          delete store[key];
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('writes a versioned envelope', async () => {
+    await setStoredItems([makeItem()], createLocalStorageAdapter());
+
+    expect(JSON.parse(store[STORAGE_KEYS.wishlistItems] ?? '')).toMatchObject({
+      version: WISHLIST_SCHEMA_VERSION,
+      items: [makeItem()],
+    });
+  });
+
+  it('reads lists saved before the envelope existed', async () => {
+    store[STORAGE_KEYS.wishlistItems] = JSON.stringify([makeItem()]);
+
+    expect(await getStoredItems(createLocalStorageAdapter())).toEqual([makeItem()]);
+  });
+});
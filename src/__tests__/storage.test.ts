@@ -0,0 +1,354 @@
+/**
+ * hydrogen-wishlist guest storage tests
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+
+import {
+  createIndexedDBAdapter,
+  createMemoryStorageAdapter,
+  createScopedStorageAdapter,
+  createSessionStorageAdapter,
+  getScopedStorageKey,
+} from '../utils/adapters.js';
+import { STORAGE_KEYS } from '../utils/constants.js';
+import { isWishBridgeError } from '../utils/errors.js';
+import { createWishlistEnvelope } from '../utils/schema.js';
+import {
+  addStoredItem,
+  clearStoredItems,
+  evictOldestItems,
+  getLastSyncTimestamp,
+  getStoredItems,
+  getStoredTombstones,
+  getSyncedItems,
+  isItemStored,
+  removeExpiredItems,
+  removeStoredItem,
+  setLastSyncTimestamp,
+  setStoredItems,
+  setSyncedItems,
+} from '../utils/storage.js';
+import { makeItem } from './fixtures.js';
+
+import type { WishlistStorageAdapter } from '../types.js';
+
+const CUSTOMER_ID = 'gid://shopify/Customer/1';
+
+/**
+ * Adapter that resolves every call on a later tick, like IndexedDB
+ */
+function createAsyncAdapter(): WishlistStorageAdapter & { values: Map<string, string> } {
+  const values = new Map<string, string>();
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  return {
+    values,
+    getItem: async (key) => {
+      await tick();
+      return values.get(key) ?? null;
+    },
+    setItem: async (key, value) => {
+      await tick();
+      values.set(key, value);
+    },
+    removeItem: async (key) => {
+      await tick();
+      values.delete(key);
+    },
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// Stored item helpers
+// ---------------------------------------------------------------------------
+
+describe('stored item helpers', () => {
+  it('adds, checks and removes items through the adapter', async () => {
+    const adapter = createMemoryStorageAdapter();
+
+    await addStoredItem(makeItem(), adapter);
+    await addStoredItem(makeItem({ productId: 'gid://shopify/Product/2' }), adapter);
+    // Duplicates are ignored
+    await addStoredItem(makeItem(), adapter);
+
+    expect(await getStoredItems(adapter)).toHaveLength(2);
+    expect(await isItemStored('gid://shopify/Product/1', undefined, adapter)).toBe(true);
+
+    await removeStoredItem('gid://shopify/Product/1', undefined, adapter);
+
+    expect(await isItemStored('gid://shopify/Product/1', undefined, adapter)).toBe(false);
+    expect(await getStoredItems(adapter)).toHaveLength(1);
+  });
+
+  it('runs overlapping calls on an async adapter in order', async () => {
+    const adapter = createAsyncAdapter();
+
+    await Promise.all([
+      addStoredItem(makeItem(), adapter),
+      addStoredItem(makeItem({ productId: 'gid://shopify/Product/2' }), adapter),
+      removeStoredItem('gid://shopify/Product/1', undefined, adapter),
+      addStoredItem(makeItem({ productId: 'gid://shopify/Product/3' }), adapter),
+    ]);
+
+    expect((await getStoredItems(adapter)).map((item) => item.productId)).toEqual([
+      'gid://shopify/Product/2',
+      'gid://shopify/Product/3',
+    ]);
+  });
+
+  it('clears items but keeps the sync watermark', async () => {
+    const adapter = createAsyncAdapter();
+    await addStoredItem(makeItem(), adapter);
+    await setLastSyncTimestamp(CUSTOMER_ID, '2024-01-15T12:00:00Z', adapter);
+
+    await clearStoredItems(adapter);
+
+    expect(await getStoredItems(adapter)).toEqual([]);
+    expect(await getLastSyncTimestamp(CUSTOMER_ID, adapter)).toBe('2024-01-15T12:00:00Z');
+  });
+
+  it('keeps the last synced list and watermark per customer', async () => {
+    const adapter = createMemoryStorageAdapter();
+    await setSyncedItems(CUSTOMER_ID, [makeItem()], adapter);
+    await setLastSyncTimestamp(CUSTOMER_ID, '2024-01-15T12:00:00Z', adapter);
+
+    expect(await getSyncedItems(CUSTOMER_ID, adapter)).toEqual([makeItem()]);
+    expect(await getSyncedItems('gid://shopify/Customer/2', adapter)).toBeNull();
+    expect(await getLastSyncTimestamp('gid://shopify/Customer/2', adapter)).toBeNull();
+  });
+
+  it('records a tombstone on removal and clears it when the item is added back', async () => {
+    const adapter = createMemoryStorageAdapter();
+    await addStoredItem(makeItem(), adapter);
+
+    await removeStoredItem('gid://shopify/Product/1', undefined, adapter);
+
+    expect(await getStoredTombstones(adapter)).toEqual([
+      { productId: 'gid://shopify/Product/1', removedAt: expect.any(String) },
+    ]);
+
+    await addStoredItem(makeItem({ addedAt: new Date().toISOString() }), adapter);
+
+    expect(await getStoredTombstones(adapter)).toEqual([]);
+  });
+
+  it('drops tombstones older than tombstoneTtlMs', async () => {
+    const adapter = createMemoryStorageAdapter();
+    await removeStoredItem('gid://shopify/Product/1', undefined, adapter);
+    await setStoredItems([makeItem({ productId: 'gid://shopify/Product/2' })], adapter);
+
+    expect(await getStoredTombstones(adapter)).toHaveLength(1);
+    expect(await getStoredTombstones(adapter, { tombstoneTtlMs: -1 })).toEqual([]);
+  });
+
+  it('treats a failing adapter as empty', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const adapter: WishlistStorageAdapter = {
+      getItem: () => Promise.reject(new Error('blocked')),
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      },
+      removeItem: () => {},
+    };
+
+    expect(await getStoredItems(adapter)).toEqual([]);
+    expect(await addStoredItem(makeItem(), adapter)).toEqual([makeItem()]);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Adapters
+// ---------------------------------------------------------------------------
+
+describe('storage adapters', () => {
+  it('memory adapter starts from initial values', async () => {
+    const adapter = createMemoryStorageAdapter({
+      [STORAGE_KEYS.wishlistItems]: JSON.stringify([makeItem()]),
+    });
+
+    expect(await getStoredItems(adapter)).toEqual([makeItem()]);
+  });
+
+  it('sessionStorage adapter writes to window.sessionStorage', async () => {
+    const store: Record<string, string> = {};
+    vi.stubGlobal('window', {
+      sessionStorage: {
+        getItem: (key: string) => store[key] ?? null,
+        setItem: (key: string, value: string) => {
+          store[key] = value;
+        },
+        removeItem: (key: string) => {
+          delete store[key];
+        },
+      },
+    });
+    const adapter = createSessionStorageAdapter();
+
+    await addStoredItem(makeItem(), adapter);
+
+    expect(store[STORAGE_KEYS.wishlistItems]).toBeDefined();
+    expect(await getStoredItems(adapter)).toEqual([makeItem()]);
+  });
+
+  it('web storage adapters read nothing during server rendering', async () => {
+    expect(await createSessionStorageAdapter().getItem(STORAGE_KEYS.wishlistItems)).toBeNull();
+  });
+
+  it('IndexedDB adapter rejects when IndexedDB is missing', async () => {
+    const adapter = createIndexedDBAdapter();
+
+    await expect(adapter.getItem(STORAGE_KEYS.wishlistItems)).rejects.toThrow(
+      'IndexedDB is not available',
+    );
+    expect(await getStoredItems(adapter)).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Scoped storage
+// ---------------------------------------------------------------------------
+
+describe('createScopedStorageAdapter', () => {
+  const shop = { shopDomain: 'a.myshopify.com' };
+
+  it('builds keys from the shop domain and namespace', () => {
+    expect(getScopedStorageKey(STORAGE_KEYS.wishlistItems, shop)).toBe(
+      'wishbridge_items:a.myshopify.com',
+    );
+    expect(
+      getScopedStorageKey(STORAGE_KEYS.wishlistItems, { ...shop, namespace: 'en-ca' }),
+    ).toBe('wishbridge_items:a.myshopify.com:en-ca');
+  });
+
+  it('keeps separate lists per shop and namespace on one store', async () => {
+    const storage = createMemoryStorageAdapter();
+    const shopA = createScopedStorageAdapter(storage, shop);
+    const shopB = createScopedStorageAdapter(storage, { shopDomain: 'b.myshopify.com' });
+    const market = createScopedStorageAdapter(storage, { ...shop, namespace: 'en-ca' });
+
+    await addStoredItem(makeItem(), shopA);
+    await addStoredItem(makeItem({ productId: 'gid://shopify/Product/2' }), shopB);
+
+    expect(await getStoredItems(shopA)).toEqual([makeItem()]);
+    expect(await getStoredItems(shopB)).toEqual([
+      makeItem({ productId: 'gid://shopify/Product/2' }),
+    ]);
+    expect(await getStoredItems(market)).toEqual([]);
+  });
+
+  it('moves the unscoped list to the scoped key on first read', async () => {
+    const storage = createMemoryStorageAdapter({
+      [STORAGE_KEYS.wishlistItems]: JSON.stringify([makeItem()]),
+    });
+    const scoped = createScopedStorageAdapter(storage, shop);
+
+    expect(await getStoredItems(scoped)).toEqual([makeItem()]);
+    expect(await storage.getItem(STORAGE_KEYS.wishlistItems)).toBeNull();
+    expect(
+      await storage.getItem(getScopedStorageKey(STORAGE_KEYS.wishlistItems, shop)),
+    ).not.toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Limits and eviction
+// ---------------------------------------------------------------------------
+
+describe('guest limits', () => {
+  const day = (n: number) => new Date(Date.UTC(2024, 0, n)).toISOString();
+  const items = [1, 2, 3].map((n) =>
+    makeItem({
+      productId: `gid://shopify/Product/${n}`,
+      addedAt: day(n),
+      image: { url: `https://cdn.test/${n}.jpg` },
+    }),
+  );
+
+  /**
+   * Memory adapter that rejects writes above `maxBytes` like a full localStorage
+   */
+  function createQuotaAdapter(maxBytes: number): WishlistStorageAdapter {
+    const storage = createMemoryStorageAdapter();
+    return {
+      ...storage,
+      setItem: (key, value) => {
+        if (value.length > maxBytes) {
+          throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        }
+        return storage.setItem(key, value);
+      },
+    };
+  }
+
+  const rejectsFull = async (promise: Promise<unknown>) => {
+    const err = await promise.catch((e: unknown) => e);
+    expect(isWishBridgeError(err) && err.code).toBe('wishlist_full');
+  };
+
+  it('drops expired items', () => {
+    const now = Date.parse(day(4));
+    expect(removeExpiredItems(items, 2.5 * 86_400_000, now).map((i) => i.addedAt)).toEqual([
+      day(2),
+      day(3),
+    ]);
+    expect(removeExpiredItems(items, undefined, now)).toBe(items);
+  });
+
+  it('evicts the oldest items and keeps order', () => {
+    const shuffled = [items[1]!, items[0]!, items[2]!];
+    expect(evictOldestItems(shuffled, 1)).toEqual([items[1], items[2]]);
+  });
+
+  it('rejects adds past maxItems by default', async () => {
+    const adapter = createMemoryStorageAdapter();
+    await setStoredItems(items.slice(0, 2), adapter);
+
+    await rejectsFull(addStoredItem(items[2]!, adapter, { maxItems: 2 }));
+    expect(await getStoredItems(adapter)).toHaveLength(2);
+  });
+
+  it('evicts the oldest item to make room', async () => {
+    const adapter = createMemoryStorageAdapter();
+    await setStoredItems(items.slice(0, 2), adapter);
+
+    const saved = await addStoredItem(items[2]!, adapter, { maxItems: 2, eviction: 'oldest' });
+
+    expect(saved).toEqual([items[1], items[2]]);
+  });
+
+  it('drops images before items when storage is full', async () => {
+    const withoutImages = JSON.stringify(
+      items.map(({ image: _image, ...item }) => item),
+    ).length;
+    // Room for the envelope, but not for the images
+    const adapter = createQuotaAdapter(withoutImages + 80);
+
+    const saved = await setStoredItems(items, adapter, { eviction: 'images' });
+
+    expect(saved).toHaveLength(3);
+    expect(saved.every((item) => item.image === undefined)).toBe(true);
+  });
+
+  it('rejects with wishlist_full on quota errors by default', async () => {
+    await rejectsFull(setStoredItems(items, createQuotaAdapter(10)));
+  });
+
+  it('removes items without a tombstone when storage is full', async () => {
+    // Room for the list, but not for another tombstone
+    const adapter = createQuotaAdapter(JSON.stringify(createWishlistEnvelope(items)).length);
+    await setStoredItems(items, adapter, { eviction: 'oldest' });
+
+    const saved = await removeStoredItem('gid://shopify/Product/9', undefined, adapter, {
+      eviction: 'oldest',
+    });
+
+    expect(saved).toEqual(items);
+    expect(await getStoredTombstones(adapter)).toEqual([]);
+  });
+});
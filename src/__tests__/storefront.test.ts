@@ -0,0 +1,124 @@
+/**
+ * hydrogen-wishlist Storefront API tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+import { createWishlistEnvelope } from '../utils/schema.js';
+import {
+  canReadCustomerWishlist,
+  fetchCustomerWishlist,
+  fetchCustomerWishlistWithTombstones,
+  parseWishlistMetafield,
+} from '../utils/storefront.js';
+import { makeItem } from './fixtures.js';
+
+import type { WishBridgeConfig } from '../types.js';
+
+const config: WishBridgeConfig = {
+  shopDomain: 'my-store.myshopify.com',
+  customerId: 'gid://shopify/Customer/1',
+  customerAccessToken: 'customer-token',
+  storefrontAccessToken: 'storefront-token',
+};
+
+const graphqlResponse = (data: unknown, status = 200): Response =>
+  new Response(JSON.stringify({ data }), { status });
+
+// ---------------------------------------------------------------------------
+// parseWishlistMetafield
+// ---------------------------------------------------------------------------
+
+describe('parseWishlistMetafield', () => {
+  it('parses a JSON array of items', () => {
+    expect(parseWishlistMetafield(JSON.stringify([makeItem()]))).toEqual([makeItem()]);
+  });
+
+  it('drops invalid entries', () => {
+    const value = JSON.stringify([makeItem(), { productId: 'p2' }, null]);
+    expect(parseWishlistMetafield(value)).toHaveLength(1);
+  });
+
+  it('returns empty for missing, malformed or non-array values', () => {
+    expect(parseWishlistMetafield(null)).toEqual([]);
+    expect(parseWishlistMetafield('{nope')).toEqual([]);
+    expect(parseWishlistMetafield('{"items":[]}')).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fetchCustomerWishlist
+// ---------------------------------------------------------------------------
+
+describe('fetchCustomerWishlist', () => {
+  it('requires both access tokens', () => {
+    expect(canReadCustomerWishlist(config)).toBe(true);
+    expect(canReadCustomerWishlist({ ...config, storefrontAccessToken: undefined })).toBe(false);
+  });
+
+  it('queries the metafield with the customer token', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      graphqlResponse({
+        customer: {
+          id: 'gid://shopify/Customer/1',
+          metafield: { value: JSON.stringify([makeItem()]) },
+        },
+      }),
+    );
+
+    const items = await fetchCustomerWishlist({ ...config, fetch: fetchMock });
+
+    expect(items).toEqual([makeItem()]);
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://my-store.myshopify.com/api/2025-01/graphql.json');
+    expect((init.headers as Record<string, string>)['X-Shopify-Storefront-Access-Token']).toBe(
+      'storefront-token',
+    );
+    expect(JSON.parse(init.body as string).variables).toEqual({
+      customerAccessToken: 'customer-token',
+    });
+  });
+
+  it('reads the removals recorded with the items', async () => {
+    const removed = [{ productId: 'p2', removedAt: '2024-02-01T00:00:00Z' }];
+    const fetchMock = vi.fn().mockResolvedValue(
+      graphqlResponse({
+        customer: {
+          id: 'gid://shopify/Customer/1',
+          metafield: {
+            value: JSON.stringify(createWishlistEnvelope([makeItem()], undefined, removed)),
+          },
+        },
+      }),
+    );
+
+    expect(await fetchCustomerWishlistWithTombstones({ ...config, fetch: fetchMock })).toEqual({
+      items: [makeItem()],
+      removed,
+    });
+  });
+
+  it('returns empty when the customer has no metafield', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      graphqlResponse({ customer: { id: 'gid://shopify/Customer/1', metafield: null } }),
+    );
+
+    expect(await fetchCustomerWishlist({ ...config, fetch: fetchMock })).toEqual([]);
+  });
+
+  it('rejects when the customer token is invalid', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(graphqlResponse({ customer: null }));
+
+    await expect(
+      fetchCustomerWishlist({ ...config, fetch: fetchMock }),
+    ).rejects.toMatchObject({ code: 'request_failed' });
+  });
+
+  it('rejects with network on fetch failure', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError('offline'));
+
+    await expect(
+      fetchCustomerWishlist({ ...config, fetch: fetchMock }),
+    ).rejects.toMatchObject({ code: 'network' });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * hydrogen-wishlist useWishlistSync tests
+ *
+ * @vitest-environment happy-dom
+ */
+
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+
+import { useWishlistContext } from '../components/WishlistProvider.js';
+import { useWishlistSync } from '../hooks/useWishlistSync.js';
+import { makeItem } from './fixtures.js';
+import { setupProvider } from './provider.js';
+
+import type { UseWishlistSyncOptions } from '../hooks/useWishlistSync.js';
+
+const itemA = makeItem({ productId: 'gid://shopify/Product/1', productTitle: 'Product A' });
+const itemB = makeItem({ productId: 'gid://shopify/Product/2', productTitle: 'Product B' });
+
+const useSyncState = (options: UseWishlistSyncOptions) => ({
+  sync: useWishlistSync(options),
+  context: useWishlistContext(),
+});
+
+describe('useWishlistSync', () => {
+  it('passes the merge report to onSyncSuccess', async () => {
+    // Without auto merge the guest item waits for the manual sync
+    const { wrapper } = await setupProvider([itemA], {
+      guestItems: [itemB],
+      config: { enableAutoMerge: false },
+    });
+    const onSyncSuccess = vi.fn();
+    const onSyncError = vi.fn();
+    const { result } = renderHook(
+      () => useSyncState({ autoSync: false, onSyncSuccess, onSyncError }),
+      { wrapper },
+    );
+    await waitFor(() => expect(result.current.context.isLoading).toBe(false));
+
+    await act(() => result.current.sync.triggerSync());
+
+    expect(onSyncError).not.toHaveBeenCalled();
+    expect(onSyncSuccess).toHaveBeenCalledTimes(1);
+    expect(onSyncSuccess.mock.calls[0]?.[0]).toMatchObject({
+      added: [itemB],
+      duplicates: [],
+    });
+  });
+
+  it('calls onSyncError instead of onSyncSuccess when a manual sync fails', async () => {
+    const { backend, wrapper } = await setupProvider([itemA]);
+    const onSyncSuccess = vi.fn();
+    const onSyncError = vi.fn();
+    const { result } = renderHook(
+      () => useSyncState({ autoSync: false, onSyncSuccess, onSyncError }),
+      { wrapper },
+    );
+    await waitFor(() => expect(result.current.context.isLoading).toBe(false));
+
+    backend.failNext({ type: 'status', status: 500, endpoint: 'sync' });
+    await act(() => result.current.sync.triggerSync());
+
+    expect(onSyncSuccess).not.toHaveBeenCalled();
+    expect(result.current.sync.syncError).toEqual(expect.any(String));
+    expect(onSyncError).toHaveBeenCalledWith(result.current.sync.syncError);
+  });
+
+  it('calls onSyncError when the automatic sync fails', async () => {
+    const { backend, wrapper } = await setupProvider([itemA]);
+    // Both the load and the automatic sync fail
+    backend.failNext({ type: 'status', status: 500, endpoint: 'sync', times: 2 });
+    const onSyncSuccess = vi.fn();
+    const onSyncError = vi.fn();
+    renderHook(() => useSyncState({ onSyncSuccess, onSyncError }), { wrapper });
+
+    await waitFor(() => expect(onSyncError).toHaveBeenCalledTimes(1));
+    expect(onSyncSuccess).not.toHaveBeenCalled();
+  });
+});
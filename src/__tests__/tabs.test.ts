@@ -0,0 +1,121 @@
+/**
+ * hydrogen-wishlist cross-tab sync tests
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+
+import { STORAGE_KEYS } from '../utils/constants.js';
+import { createTabSync, parseTabSyncMessage } from '../utils/tabs.js';
+import { makeItem } from './fixtures.js';
+
+import type { StorageScope } from '../utils/adapters.js';
+import type { TabSync, TabSyncMessage } from '../utils/tabs.js';
+
+const open: TabSync[] = [];
+
+function openTab(
+  onMessage: (message: TabSyncMessage) => void,
+  scope?: StorageScope,
+): TabSync {
+  const tab = createTabSync(onMessage, scope);
+  open.push(tab);
+  return tab;
+}
+
+afterEach(() => {
+  open.splice(0).forEach((tab) => tab.close());
+  vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// parseTabSyncMessage
+// ---------------------------------------------------------------------------
+
+describe('parseTabSyncMessage', () => {
+  it('accepts guest and customer messages', () => {
+    expect(parseTabSyncMessage({ type: 'guest' })).toEqual({ type: 'guest' });
+    expect(
+      parseTabSyncMessage({ type: 'customer', customerId: 'c1', items: [makeItem()] }),
+    ).toEqual({ type: 'customer', customerId: 'c1', items: [makeItem()] });
+  });
+
+  it('drops invalid items and rejects unknown messages', () => {
+    expect(
+      parseTabSyncMessage({ type: 'customer', customerId: 'c1', items: [makeItem(), { nope: 1 }] }),
+    ).toEqual({ type: 'customer', customerId: 'c1', items: [makeItem()] });
+    expect(parseTabSyncMessage({ type: 'customer', items: [] })).toBeNull();
+    expect(parseTabSyncMessage('guest')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createTabSync
+// ---------------------------------------------------------------------------
+
+describe('createTabSync', () => {
+  it('delivers messages to other tabs over BroadcastChannel', async () => {
+    const received = vi.fn();
+    const sender = openTab(() => {});
+    openTab(received);
+
+    sender.post({ type: 'customer', customerId: 'c1', items: [makeItem()] });
+
+    await vi.waitFor(() => {
+      expect(received).toHaveBeenCalledWith({
+        type: 'customer',
+        customerId: 'c1',
+        items: [makeItem()],
+      });
+    });
+  });
+
+  it('only delivers messages within the same shop', async () => {
+    const otherShop = vi.fn();
+    const sameShop = vi.fn();
+    const sender = openTab(() => {}, { shopDomain: 'a.myshopify.com' });
+    openTab(otherShop, { shopDomain: 'b.myshopify.com' });
+    openTab(sameShop, { shopDomain: 'a.myshopify.com' });
+
+    sender.post({ type: 'guest' });
+
+    await vi.waitFor(() => {
+      expect(sameShop).toHaveBeenCalledWith({ type: 'guest' });
+    });
+    expect(otherShop).not.toHaveBeenCalled();
+  });
+
+  it('falls back to storage events without BroadcastChannel', () => {
+    const listeners = new Set<(event: StorageEvent) => void>();
+    const store = new Map<string, string>();
+    vi.stubGlobal('BroadcastChannel', undefined);
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+        removeItem: (key: string) => store.delete(key),
+      },
+      addEventListener: (_type: string, listener: (event: StorageEvent) => void) => {
+        listeners.add(listener);
+      },
+      removeEventListener: (_type: string, listener: (event: StorageEvent) => void) => {
+        listeners.delete(listener);
+      },
+    });
+
+    const received = vi.fn();
+    const tab = openTab(received);
+    tab.post({ type: 'guest' });
+
+    // The browser fires `storage` in other tabs; replay it here
+    const event = {
+      key: STORAGE_KEYS.tabSync,
+      newValue: store.get(STORAGE_KEYS.tabSync) ?? null,
+    } as StorageEvent;
+    listeners.forEach((listener) => listener(event));
+
+    expect(received).toHaveBeenCalledWith({ type: 'guest' });
+
+    tab.close();
+    expect(listeners.size).toBe(0);
+  });
+});
@@ -11,6 +11,7 @@ import {
   extractNumericId,
   sanitizeInput,
   isValidWishlistItem,
+  parseUpdateOperations,
 } from '../utils/validation.js';
 
 // ---------------------------------------------------------------------------
@@ -211,3 +212,48 @@ describe('isValidWishlistItem', () => {
     ).toBe(false);
   });
 });
+
+// ---------------------------------------------------------------------------
+// parseUpdateOperations
+// ---------------------------------------------------------------------------
+
+describe('parseUpdateOperations', () => {
+  const item = {
+    productId: 'gid://shopify/Product/1',
+    productTitle: 'Test',
+    addedAt: '2024-01-15T12:00:00Z',
+  };
+
+  it('wraps a single operation', () => {
+    expect(parseUpdateOperations({ action: 'add', item, customerId: 'c1' })).toEqual([
+      { action: 'add', item },
+    ]);
+  });
+
+  it('returns batch operations in order', () => {
+    expect(
+      parseUpdateOperations({
+        operations: [
+          { action: 'add', item },
+          { action: 'remove', item: { productId: 'p2' } },
+        ],
+      }),
+    ).toEqual([
+      { action: 'add', item },
+      { action: 'remove', item: { productId: 'p2' } },
+    ]);
+  });
+
+  it('rejects a batch with an invalid operation', () => {
+    expect(
+      parseUpdateOperations({
+        operations: [{ action: 'add', item }, { action: 'add', item: { productId: 'p2' } }],
+      }),
+    ).toBeNull();
+  });
+
+  it('rejects unknown actions and non-objects', () => {
+    expect(parseUpdateOperations({ action: 'toggle', item })).toBeNull();
+    expect(parseUpdateOperations(null)).toBeNull();
+  });
+});
@@ -4,11 +4,15 @@
  * Slide-out panel for viewing wishlist items.
  */
 
-import { useCallback, useEffect, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
 
 import { useWishlist } from '../hooks/useWishlist.js';
+import { isPurchasable } from '../utils/availability.js';
+import { createItemKey } from '../utils/merge.js';
+import { indexPriceChanges, isPriceDrop } from '../utils/prices.js';
+import { sortWishlistItems } from '../utils/sort.js';
 
-import type { WishlistItem } from '../types.js';
+import type { HydratedWishlistItem, SortOption, WishlistItem } from '../types.js';
 import type { CSSProperties, ReactNode, MouseEvent } from 'react';
 
 export interface WishlistDrawerProps {
@@ -40,6 +44,17 @@ export interface WishlistDrawerProps {
    */
   showAddToCart?: boolean;
 
+  /**
+   * Show a badge on items whose price dropped since they were saved
+   * @default true
+   */
+  showPriceDrops?: boolean;
+
+  /**
+   * Sort order for items. Defaults to the order they were saved in.
+   */
+  sortBy?: SortOption;
+
   /**
    * Add to cart handler
    */
@@ -85,13 +100,17 @@ export interface WishlistDrawerProps {
   /**
    * Custom item renderer
    */
-  renderItem?: (item: WishlistItem, actions: ItemActions) => ReactNode;
+  renderItem?: (item: HydratedWishlistItem, actions: ItemActions) => ReactNode;
 }
 
 interface ItemActions {
   remove: () => void;
   addToCart: () => void;
   viewProduct: () => void;
+  /**
+   * False for sold-out or deleted items; `addToCart` does nothing then
+   */
+  canAddToCart: boolean;
 }
 
 /**
@@ -145,6 +164,8 @@ export function WishlistDrawer({
   position = 'right',
   showProductImage = true,
   showAddToCart = true,
+  showPriceDrops = true,
+  sortBy,
   onAddToCart,
   onViewProduct,
   title = 'My Wishlist',
@@ -155,9 +176,16 @@ export function WishlistDrawer({
   footer,
   renderItem,
 }: WishlistDrawerProps) {
-  const { items, count, remove, isLoading } = useWishlist();
+  const { items, count, remove, isLoading, priceChanges } = useWishlist();
   const drawerRef = useRef<HTMLDivElement>(null);
 
+  const sortedItems = useMemo(
+    () => (sortBy ? sortWishlistItems(items, sortBy, priceChanges) : items),
+    [items, sortBy, priceChanges],
+  );
+
+  const priceChangesByItem = useMemo(() => indexPriceChanges(priceChanges), [priceChanges]);
+
   // Handle escape key
   useEffect(() => {
     const handleEscape = (e: globalThis.KeyboardEvent) => {
@@ -210,7 +238,8 @@ export function WishlistDrawer({
   );
 
   const handleAddToCart = useCallback(
-    (item: WishlistItem) => {
+    (item: HydratedWishlistItem) => {
+      if (!isPurchasable(item)) return;
       onAddToCart?.(item);
     },
     [onAddToCart],
@@ -334,11 +363,14 @@ export function WishlistDrawer({
             </p>
           ) : (
             <div>
-              {items.map((item) => {
+              {sortedItems.map((item) => {
+                const priceChange = priceChangesByItem.get(createItemKey(item));
+                const purchasable = isPurchasable(item);
                 const actions: ItemActions = {
                   remove: () => handleRemove(item),
                   addToCart: () => handleAddToCart(item),
                   viewProduct: () => handleViewProduct(item),
+                  canAddToCart: purchasable,
                 };
 
                 if (renderItem) {
@@ -358,7 +390,7 @@ export function WishlistDrawer({
                       <img
                         src={item.image.url}
                         alt={item.image.altText ?? item.productTitle}
-                        style={imageStyles}
+                        style={{ ...imageStyles, opacity: purchasable ? 1 : 0.5 }}
                       />
                     )}
 
@@ -407,6 +439,31 @@ export function WishlistDrawer({
                         </p>
                       )}
 
+                      {!purchasable && (
+                        <p
+                          style={{
+                            margin: '0.25rem 0 0',
+                            fontSize: '0.75rem',
+                            color: '#b91c1c',
+                          }}
+                        >
+                          {item.isDeleted ? 'No longer available' : 'Sold out'}
+                        </p>
+                      )}
+
+                      {showPriceDrops && isPriceDrop(priceChange) && (
+                        <p
+                          style={{
+                            margin: '0.25rem 0 0',
+                            fontSize: '0.75rem',
+                            fontWeight: 600,
+                            color: '#15803d',
+                          }}
+                        >
+                          Price dropped {Math.round(-priceChange.percentChange)}%
+                        </p>
+                      )}
+
                       <div
                         style={{
                           display: 'flex',
@@ -418,16 +475,18 @@ export function WishlistDrawer({
                           <button
                             type="button"
                             onClick={() => handleAddToCart(item)}
+                            disabled={!purchasable}
                             style={{
                               padding: '0.375rem 0.75rem',
                               fontSize: '0.75rem',
                               border: '1px solid #e5e7eb',
                               borderRadius: '4px',
                               background: '#fff',
-                              cursor: 'pointer',
+                              color: purchasable ? undefined : '#9ca3af',
+                              cursor: purchasable ? 'pointer' : 'not-allowed',
                             }}
                           >
-                            Add to Cart
+                            {purchasable ? 'Add to Cart' : 'Sold Out'}
                           </button>
                         )}
 
@@ -0,0 +1,253 @@
+/**
+ * WishlistMergePrompt
+ *
+ * Asks a shopper who just logged in whether to add the items saved in
+ * this browser to their account. Requires `confirmMerge: true`.
+ */
+
+import { useCallback, useId, useMemo, useState } from 'react';
+
+import { useWishlistMerge } from '../hooks/useWishlistMerge.js';
+import { createItemKey } from '../utils/merge.js';
+
+import type { WishlistItem } from '../types.js';
+import type { CSSProperties, ReactNode } from 'react';
+
+export interface WishlistMergePromptProps {
+  /**
+   * Heading, given the number of new items
+   * @default count => `We found ${count} items from this browser`
+   */
+  title?: (count: number) => ReactNode;
+
+  /**
+   * Text under the heading
+   * @default "Choose the ones to add to your wishlist."
+   */
+  message?: ReactNode;
+
+  /**
+   * Merge button label
+   * @default "Add selected"
+   */
+  confirmLabel?: string;
+
+  /**
+   * Discard button label
+   * @default "Not mine"
+   */
+  discardLabel?: string;
+
+  /**
+   * Show product images
+   * @default true
+   */
+  showProductImage?: boolean;
+
+  /**
+   * Called after the picked items were merged. Not called when the merge
+   * failed; the prompt stays open and the provider's `error` is set.
+   */
+  onMerge?: (items: WishlistItem[]) => void;
+
+  /**
+   * Called after the guest items were discarded
+   */
+  onDiscard?: () => void;
+
+  /**
+   * Custom item renderer
+   */
+  renderItem?: (item: WishlistItem, selection: ItemSelection) => ReactNode;
+
+  /**
+   * Additional CSS class name
+   */
+  className?: string;
+
+  /**
+   * Inline styles
+   */
+  style?: CSSProperties;
+}
+
+interface ItemSelection {
+  selected: boolean;
+  toggle: () => void;
+}
+
+/**
+ * Wishlist merge prompt component. Renders nothing when there are no
+ * new guest items.
+ *
+ * @example
+ * ```tsx
+ * <WishlistProvider config={{ ...config, confirmMerge: true }}>
+ *   <WishlistMergePrompt
+ *     onMerge={(items) => toast(`Added ${items.length} items to your wishlist`)}
+ *   />
+ *   <Outlet />
+ * </WishlistProvider>
+ * ```
+ */
+export function WishlistMergePrompt({
+  title = (count) => `We found ${count} ${count === 1 ? 'item' : 'items'} from this browser`,
+  message = 'Choose the ones to add to your wishlist.',
+  confirmLabel = 'Add selected',
+  discardLabel = 'Not mine',
+  showProductImage = true,
+  onMerge,
+  onDiscard,
+  renderItem,
+  className,
+  style,
+}: WishlistMergePromptProps) {
+  const { newItems, hasPendingMerge, isMerging, merge, discard } = useWishlistMerge();
+  const titleId = useId();
+
+  // Track unchecked items, so items are picked by default
+  const [unchecked, setUnchecked] = useState<Set<string>>(() => new Set());
+
+  const selectedItems = useMemo(
+    () => newItems.filter((item) => !unchecked.has(createItemKey(item))),
+    [newItems, unchecked],
+  );
+
+  const toggle = useCallback((item: WishlistItem) => {
+    const key = createItemKey(item);
+    setUnchecked((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  }, []);
+
+  const handleMerge = useCallback(async () => {
+    if (await merge(selectedItems)) {
+      onMerge?.(selectedItems);
+    }
+  }, [merge, selectedItems, onMerge]);
+
+  const handleDiscard = useCallback(async () => {
+    await discard();
+    onDiscard?.();
+  }, [discard, onDiscard]);
+
+  if (!hasPendingMerge) {
+    return null;
+  }
+
+  const defaultStyles: CSSProperties = {
+    padding: '1rem',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    backgroundColor: '#fff',
+    boxShadow: '0 4px 10px rgba(0, 0, 0, 0.1)',
+  };
+
+  const itemStyles: CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.75rem',
+    padding: '0.5rem 0',
+    borderBottom: '1px solid #e5e7eb',
+    cursor: 'pointer',
+  };
+
+  const imageStyles: CSSProperties = {
+    width: '48px',
+    height: '48px',
+    objectFit: 'cover',
+    borderRadius: '4px',
+  };
+
+  const buttonStyles: CSSProperties = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    borderRadius: '4px',
+    cursor: isMerging ? 'wait' : 'pointer',
+  };
+
+  return (
+    <div
+      className={className}
+      style={{ ...defaultStyles, ...style }}
+      role="dialog"
+      aria-labelledby={titleId}
+    >
+      <h2 id={titleId} style={{ margin: 0, fontSize: '1.125rem', fontWeight: 600 }}>
+        {title(newItems.length)}
+      </h2>
+      {message && (
+        <p style={{ margin: '0.25rem 0 0.75rem', fontSize: '0.875rem', color: '#6b7280' }}>
+          {message}
+        </p>
+      )}
+
+      <div>
+        {newItems.map((item) => {
+          const key = createItemKey(item);
+          const selection: ItemSelection = {
+            selected: !unchecked.has(key),
+            toggle: () => toggle(item),
+          };
+
+          if (renderItem) {
+            return <div key={key}>{renderItem(item, selection)}</div>;
+          }
+
+          return (
+            <label key={key} style={itemStyles}>
+              <input
+                type="checkbox"
+                checked={selection.selected}
+                onChange={selection.toggle}
+                disabled={isMerging}
+              />
+              {showProductImage && item.image && (
+                <img
+                  src={item.image.url}
+                  alt={item.image.altText ?? item.productTitle}
+                  style={imageStyles}
+                />
+              )}
+              <span style={{ flex: 1, minWidth: 0 }}>
+                <span style={{ display: 'block', fontWeight: 500 }}>{item.productTitle}</span>
+                {item.variantTitle && (
+                  <span style={{ display: 'block', fontSize: '0.875rem', color: '#6b7280' }}>
+                    {item.variantTitle}
+                  </span>
+                )}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+        <button
+          type="button"
+          onClick={handleMerge}
+          disabled={isMerging || selectedItems.length === 0}
+          style={{
+            ...buttonStyles,
+            border: 'none',
+            background: '#111827',
+            color: '#fff',
+            opacity: selectedItems.length === 0 ? 0.5 : 1,
+          }}
+        >
+          {confirmLabel}
+        </button>
+        <button
+          type="button"
+          onClick={handleDiscard}
+          disabled={isMerging}
+          style={{ ...buttonStyles, border: '1px solid #e5e7eb', background: '#fff' }}
+        >
+          {discardLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
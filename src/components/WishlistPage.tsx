@@ -7,18 +7,15 @@
 import { useCallback, useMemo, useState } from 'react';
 
 import { useWishlist } from '../hooks/useWishlist.js';
-import {
-  sortByNewest,
-  sortByOldest,
-  sortByTitle,
-  sortByPriceLowToHigh,
-  sortByPriceHighToLow,
-} from '../utils/merge.js';
-
-import type { WishlistItem } from '../types.js';
+import { isPurchasable } from '../utils/availability.js';
+import { createItemKey } from '../utils/merge.js';
+import { indexPriceChanges, isPriceDrop } from '../utils/prices.js';
+import { sortWishlistItems } from '../utils/sort.js';
+
+import type { HydratedWishlistItem, SortOption, WishlistItem } from '../types.js';
 import type { CSSProperties, ReactNode } from 'react';
 
-export type SortOption = 'newest' | 'oldest' | 'title' | 'price-low' | 'price-high';
+export type { SortOption };
 
 export interface WishlistPageProps {
   /**
@@ -68,6 +65,12 @@ export interface WishlistPageProps {
    */
   showSort?: boolean;
 
+  /**
+   * Show a badge on items whose price dropped since they were saved
+   * @default true
+   */
+  showPriceDrops?: boolean;
+
   /**
    * Show share button
    * @default false
@@ -97,7 +100,7 @@ export interface WishlistPageProps {
   /**
    * Custom item renderer
    */
-  renderItem?: (item: WishlistItem, actions: ItemActions) => ReactNode;
+  renderItem?: (item: HydratedWishlistItem, actions: ItemActions) => ReactNode;
 
   /**
    * Custom empty state renderer
@@ -109,6 +112,10 @@ interface ItemActions {
   remove: () => void;
   addToCart: () => void;
   viewProduct: () => void;
+  /**
+   * False for sold-out or deleted items; `addToCart` does nothing then
+   */
+  canAddToCart: boolean;
 }
 
 /**
@@ -146,6 +153,7 @@ export function WishlistPage({
   layout = 'grid',
   columns = 4,
   showSort = true,
+  showPriceDrops = true,
   showShare = false,
   onAddToCart,
   onViewProduct,
@@ -154,24 +162,15 @@ export function WishlistPage({
   renderItem,
   renderEmpty,
 }: WishlistPageProps) {
-  const { items, count, remove, isLoading } = useWishlist();
+  const { items, count, remove, isLoading, priceChanges } = useWishlist();
   const [sortBy, setSortBy] = useState<SortOption>('newest');
 
-  const sortedItems = useMemo(() => {
-    switch (sortBy) {
-      case 'oldest':
-        return sortByOldest(items);
-      case 'title':
-        return sortByTitle(items);
-      case 'price-low':
-        return sortByPriceLowToHigh(items);
-      case 'price-high':
-        return sortByPriceHighToLow(items);
-      case 'newest':
-      default:
-        return sortByNewest(items);
-    }
-  }, [items, sortBy]);
+  const sortedItems = useMemo(
+    () => sortWishlistItems(items, sortBy, priceChanges),
+    [items, sortBy, priceChanges],
+  );
+
+  const priceChangesByItem = useMemo(() => indexPriceChanges(priceChanges), [priceChanges]);
 
   const handleRemove = useCallback(
     (item: WishlistItem) => {
@@ -181,7 +180,8 @@ export function WishlistPage({
   );
 
   const handleAddToCart = useCallback(
-    (item: WishlistItem) => {
+    (item: HydratedWishlistItem) => {
+      if (!isPurchasable(item)) return;
       onAddToCart?.(item);
     },
     [onAddToCart],
@@ -310,6 +310,7 @@ export function WishlistPage({
               <option value="title">Name</option>
               <option value="price-low">Price: Low to High</option>
               <option value="price-high">Price: High to Low</option>
+              <option value="price-drop">Price Drops</option>
             </select>
           )}
 
@@ -335,10 +336,13 @@ export function WishlistPage({
       {/* Items */}
       <div style={layout === 'grid' ? gridStyles : listStyles}>
         {sortedItems.map((item) => {
+          const priceChange = priceChangesByItem.get(createItemKey(item));
+          const purchasable = isPurchasable(item);
           const actions: ItemActions = {
             remove: () => handleRemove(item),
             addToCart: () => handleAddToCart(item),
             viewProduct: () => handleViewProduct(item),
+            canAddToCart: purchasable,
           };
 
           if (renderItem) {
@@ -374,6 +378,7 @@ export function WishlistPage({
                       width: '100%',
                       aspectRatio: '1',
                       objectFit: 'cover',
+                      opacity: purchasable ? 1 : 0.5,
                     }}
                   />
                 </button>
@@ -398,6 +403,18 @@ export function WishlistPage({
                   {item.productTitle}
                 </button>
 
+                {!purchasable && (
+                  <p
+                    style={{
+                      margin: '0.25rem 0 0',
+                      fontSize: '0.875rem',
+                      color: '#b91c1c',
+                    }}
+                  >
+                    {item.isDeleted ? 'No longer available' : 'Sold out'}
+                  </p>
+                )}
+
                 {item.variantTitle && (
                   <p
                     style={{
@@ -425,6 +442,23 @@ export function WishlistPage({
                   </p>
                 )}
 
+                {showPriceDrops && isPriceDrop(priceChange) && (
+                  <p
+                    style={{
+                      display: 'inline-block',
+                      margin: '0.5rem 0 0',
+                      padding: '0.125rem 0.5rem',
+                      fontSize: '0.75rem',
+                      fontWeight: 600,
+                      color: '#15803d',
+                      backgroundColor: '#dcfce7',
+                      borderRadius: '9999px',
+                    }}
+                  >
+                    Price dropped {Math.round(-priceChange.percentChange)}%
+                  </p>
+                )}
+
                 <div
                   style={{
                     display: 'flex',
@@ -435,18 +469,19 @@ export function WishlistPage({
                   <button
                     type="button"
                     onClick={() => handleAddToCart(item)}
+                    disabled={!purchasable}
                     style={{
                       flex: 1,
                       padding: '0.5rem 1rem',
                       fontSize: '0.875rem',
                       border: 'none',
                       borderRadius: '4px',
-                      backgroundColor: '#111827',
+                      backgroundColor: purchasable ? '#111827' : '#9ca3af',
                       color: '#fff',
-                      cursor: 'pointer',
+                      cursor: purchasable ? 'pointer' : 'not-allowed',
                     }}
                   >
-                    Add to Cart
+                    {purchasable ? 'Add to Cart' : 'Sold Out'}
                   </button>
 
                   <button
@@ -11,49 +11,154 @@ import {
   useContext,
   useEffect,
   useMemo,
+  useRef,
   useState,
 } from 'react';
 
-import { API_ENDPOINTS, DEFAULT_ERROR_MESSAGES } from '../utils/constants.js';
+import {
+  createLocalStorageAdapter,
+  createScopedStorageAdapter,
+} from '../utils/adapters.js';
+import { recordAvailability } from '../utils/availability.js';
+import { createUpdateBatcher } from '../utils/batch.js';
+import { WishBridgeClient } from '../utils/client.js';
+import {
+  DEFAULT_ERROR_MESSAGES,
+  UPDATE_BATCH_WINDOW_MS,
+} from '../utils/constants.js';
+import { applyWishlistDelta } from '../utils/delta.js';
+import { getErrorCode, isWishBridgeError } from '../utils/errors.js';
+import {
+  applyOperations,
+  applyTombstones,
+  createItemKey,
+  createMergeReport,
+  findNewItems,
+  mergeTombstones,
+  mergeWishlists,
+} from '../utils/merge.js';
+import {
+  canHydrateProducts,
+  getLiveProductId,
+  loadLiveProducts,
+  overlayLiveProduct,
+} from '../utils/products.js';
+import { getPriceChanges } from '../utils/prices.js';
+import {
+  enqueueOperation,
+  getPendingOperations,
+  removePendingOperation,
+} from '../utils/queue.js';
+import { isRetryableError } from '../utils/retry.js';
+import {
+  canReadCustomerWishlist,
+  fetchCustomerWishlistWithTombstones,
+} from '../utils/storefront.js';
 import {
   addStoredItem,
   clearStoredItems,
   getStoredItems,
+  getLastSyncTimestamp,
+  getStoredTombstones,
+  getSyncedItems,
   removeStoredItem,
+  setLastSyncTimestamp,
+  setSyncedItems,
 } from '../utils/storage.js';
+import { createTabSync } from '../utils/tabs.js';
 
 import type { ReactNode } from 'react';
+import type { WishBridgeErrorCode } from '../utils/errors.js';
+import type { LiveProductMap } from '../utils/products.js';
+import type { TabSync, TabSyncMessage } from '../utils/tabs.js';
 import type {
+  HydratedWishlistItem,
+  PendingOperation,
+  PriceChange,
   ProductInfo,
-  SyncWishlistResponse,
-  UpdateWishlistResponse,
+  RetryState,
+  UpdateWishlistRequest,
   WishBridgeConfig,
   WishlistItem,
+  WishlistMergeReport,
+  WishlistOperation,
+  WishlistTombstone,
 } from '../types.js';
 
 interface WishlistContextValue {
   config: WishBridgeConfig;
-  items: WishlistItem[];
+  client: WishBridgeClient;
+  items: HydratedWishlistItem[];
   count: number;
   isLoading: boolean;
   isSyncing: boolean;
   error: string | undefined;
+  errorCode: WishBridgeErrorCode | undefined;
+  retryState: RetryState | undefined;
+  pendingOperations: number;
+  priceChanges: PriceChange[];
   add: (product: ProductInfo) => Promise<void>;
   remove: (productId: string, variantId?: string) => Promise<void>;
   toggle: (product: ProductInfo) => Promise<void>;
   isWishlisted: (productId: string, variantId?: string) => boolean;
   clear: () => Promise<void>;
-  sync: () => Promise<void>;
+  sync: () => Promise<WishlistMergeReport | undefined>;
+  mergeReport: WishlistMergeReport | undefined;
+  guestMergeItems: WishlistItem[];
+  mergeGuestItems: (selected?: WishlistItem[]) => Promise<boolean>;
+  discardGuestItems: () => Promise<void>;
 }
 
+/**
+ * Result of a sync: the merge report once the backend's list was
+ * applied, or the error it failed with
+ */
+type SyncOutcome = { ok: true; report?: WishlistMergeReport } | { ok: false; error: unknown };
+
 const WishlistContext = createContext<WishlistContextValue | null>(null);
 
+/**
+ * Map a failed WishBridge call to a user-facing message
+ */
+function getErrorMessage(err: unknown): string {
+  return isWishBridgeError(err) ? err.message : DEFAULT_ERROR_MESSAGES.network;
+}
+
+/**
+ * Build an update request, using the single-operation shape when possible
+ */
+function toUpdateRequest(operations: WishlistOperation[]): UpdateWishlistRequest {
+  return operations.length === 1 && operations[0]
+    ? operations[0]
+    : { operations };
+}
+
+/**
+ * Whether a failed WishBridge call should be queued for replay
+ */
+function shouldQueue(err: unknown): boolean {
+  return isWishBridgeError(err) && isRetryableError(err);
+}
+
 export interface WishlistProviderProps {
   /**
    * WishBridge configuration
    */
   config: WishBridgeConfig;
 
+  /**
+   * Items rendered on the server (see `getCustomerWishlist` and
+   * `getGuestWishlist`).
+   * When set, the provider starts with these items and no loading state.
+   */
+  initialItems?: WishlistItem[];
+
+  /**
+   * Called when an item that was sold out the last time it was checked
+   * can be purchased again
+   */
+  onBackInStock?: (item: HydratedWishlistItem) => void;
+
   /**
    * Child components
    */
@@ -85,39 +190,152 @@ export interface WishlistProviderProps {
  * }
  * ```
  */
-export function WishlistProvider({ config, children }: WishlistProviderProps) {
-  const [items, setItems] = useState<WishlistItem[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+export function WishlistProvider({
+  config,
+  initialItems,
+  onBackInStock,
+  children,
+}: WishlistProviderProps) {
+  const [items, setItems] = useState<WishlistItem[]>(initialItems ?? []);
+  const [isLoading, setIsLoading] = useState(initialItems === undefined);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [error, setError] = useState<string | undefined>();
+  const [failure, setFailure] = useState<
+    { message: string; code?: WishBridgeErrorCode } | undefined
+  >();
+  const [retryState, setRetryState] = useState<RetryState | undefined>();
+  const [pendingOperations, setPendingOperations] = useState(0);
+  const [liveProducts, setLiveProducts] = useState<LiveProductMap>({});
+  const [guestMergeItems, setGuestMergeItems] = useState<WishlistItem[]>([]);
+  const [mergeReport, setMergeReport] = useState<WishlistMergeReport | undefined>();
+  const isFlushingRef = useRef(false);
+  const initialItemsRef = useRef(initialItems);
+  const onBackInStockRef = useRef(onBackInStock);
+  onBackInStockRef.current = onBackInStock;
+  const tabSyncRef = useRef<TabSync | undefined>(undefined);
+  // Watermark of the list this tab loaded. Seeded from the one saved by
+  // the last sync, so a delta is never applied to an older list.
+  const syncWatermarkRef = useRef<{ customerId: string; syncedAt: string } | undefined>(
+    undefined,
+  );
 
   const isGuest = !config.customerId;
   const enableGuestWishlist = config.enableGuestWishlist ?? true;
   const enableAutoMerge = config.enableAutoMerge ?? true;
+  const mergeStrategy = config.mergeStrategy ?? 'union';
+  // Guest items wait for the shopper instead of merging on login
+  const deferMerge = enableAutoMerge && (config.confirmMerge ?? false);
+  const hydrateProducts = canHydrateProducts(config);
+  const syncTabs = config.syncTabs ?? true;
+
+  // Show an error message, with its code when it came from a WishBridgeError
+  const setError = useCallback(
+    (message: string | undefined, code?: WishBridgeErrorCode) => {
+      setFailure(message ? { message, code } : undefined);
+    },
+    [],
+  );
+
+  // Guest storage, the offline queue and tab messages are scoped to this
+  // shop and namespace
+  const storageScope = useMemo(
+    () => ({ shopDomain: config.shopDomain, namespace: config.storageNamespace }),
+    [config.shopDomain, config.storageNamespace],
+  );
+  const guestStorage = useMemo(
+    () =>
+      createScopedStorageAdapter(
+        config.guestStorage ?? createLocalStorageAdapter(),
+        storageScope,
+      ),
+    [config.guestStorage, storageScope],
+  );
+
+  // Tell other tabs about a change made here
+  const broadcast = useCallback((message: TabSyncMessage) => {
+    tabSyncRef.current?.post(message);
+  }, []);
+
+  const client = useMemo(
+    () =>
+      new WishBridgeClient(config, { onRetryStateChange: setRetryState }),
+    [
+      config.apiUrl,
+      config.apiKey,
+      config.proxyUrl,
+      config.customerId,
+      config.shopDomain,
+      config.storage,
+      config.retry,
+      config.fetch,
+      config.interceptors,
+    ],
+  );
 
   // Load initial items
   useEffect(() => {
     const loadItems = async () => {
-      setIsLoading(true);
+      // Server-rendered items only apply to the first load
+      const hydratedItems = initialItemsRef.current;
+      initialItemsRef.current = undefined;
+
+      if (!hydratedItems) {
+        setIsLoading(true);
+      }
       setError(undefined);
 
       try {
         if (isGuest && enableGuestWishlist) {
-          // Guest: load from localStorage
-          const storedItems = getStoredItems();
+          // Guest: load from guest storage
+          const storedItems = await getStoredItems(guestStorage, config.guestLimits);
           setItems(storedItems);
+          setGuestMergeItems([]);
         } else if (!isGuest) {
-          // Customer: load from metafield via Storefront API
-          // This would be handled by the parent component passing the data
-          // For now, we'll check localStorage and sync if needed
-          const storedItems = getStoredItems();
-
-          if (storedItems.length > 0 && enableAutoMerge) {
-            // Trigger sync to merge guest items with customer metafield
-            await syncWishlist(storedItems);
-          } else {
-            // Just load from localStorage for now (backend will handle metafield read)
-            setItems(storedItems);
+          // Customer: load saved items from the metafield first
+          const customerId = config.customerId ?? '';
+          const pending = await getPendingOperations(customerId, guestStorage);
+          // The list saved by the last sync, so only later changes are fetched
+          const syncedAt = await getLastSyncTimestamp(customerId, guestStorage);
+          const syncedItems = syncedAt ? await getSyncedItems(customerId, guestStorage) : null;
+          syncWatermarkRef.current =
+            syncedAt && syncedItems ? { customerId, syncedAt } : undefined;
+          const storedItems = await getStoredItems(guestStorage, config.guestLimits);
+          const mergeNow = enableAutoMerge && !deferMerge;
+          const guestItems = mergeNow ? storedItems : [];
+          const guestRemoved = mergeNow
+            ? await getStoredTombstones(guestStorage, config.guestLimits)
+            : [];
+          let customerItems = hydratedItems;
+          // Removals recorded on the account, known when the metafield is read
+          let accountRemoved: WishlistTombstone[] = [];
+
+          if (!customerItems && canReadCustomerWishlist(config)) {
+            try {
+              ({ items: customerItems, removed: accountRemoved } =
+                await fetchCustomerWishlistWithTombstones(config));
+            } catch (err) {
+              console.error('WishBridge: Failed to read wishlist metafield', err);
+            }
+          }
+          setGuestMergeItems(deferMerge ? applyTombstones(storedItems, accountRemoved) : []);
+
+          if (customerItems && pending.length > 0) {
+            setItems(applyOperations(customerItems, pending));
+          } else if (customerItems && !hydratedItems) {
+            setItems(customerItems);
+          }
+
+          if (guestItems.length > 0 || guestRemoved.length > 0 || !customerItems) {
+            if (customerItems && typeof mergeStrategy === 'string') {
+              // Show the merged list right away; the backend persists it
+              const merged = mergeWishlists(guestItems, customerItems, {
+                tombstones: mergeTombstones(guestRemoved, accountRemoved),
+                strategy: mergeStrategy,
+              });
+              setItems(applyOperations(merged, pending));
+            }
+            // Merge guest items into the metafield, or fetch the list
+            // through the backend when the metafield can't be read directly
+            await syncWishlist(guestItems, customerItems ?? syncedItems ?? undefined, guestRemoved);
           }
         }
       } catch (err) {
@@ -129,60 +347,308 @@ export function WishlistProvider({ config, children }: WishlistProviderProps) {
     };
 
     loadItems();
-  }, [isGuest, enableGuestWishlist, enableAutoMerge]);
-
-  // Sync with backend
+  }, [
+    isGuest,
+    enableGuestWishlist,
+    enableAutoMerge,
+    deferMerge,
+    config.customerId,
+    config.customerAccessToken,
+    config.storefrontAccessToken,
+    config.shopDomain,
+    config.storageNamespace,
+  ]);
+
+  // Sync with backend. With a `base` list at least as new as the last
+  // sync, only changes since that sync are requested. Resolves with the
+  // outcome, or undefined when there was no list to apply.
   const syncWishlist = useCallback(
-    async (guestItems: WishlistItem[]) => {
-      if (!config.customerId || !config.apiKey) {
-        return;
+    async (
+      guestItems: WishlistItem[],
+      base?: WishlistItem[],
+      guestRemoved: WishlistTombstone[] = [],
+    ): Promise<SyncOutcome | undefined> => {
+      if (!client.isEnabled) {
+        return undefined;
       }
 
       setIsSyncing(true);
       setError(undefined);
 
       try {
-        const url = `${config.apiUrl}${API_ENDPOINTS.sync}`;
-        const res = await fetch(url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${config.apiKey}`,
-          },
-          body: JSON.stringify({
-            customerId: config.customerId,
-            guestItems,
-            shop: config.shopDomain,
-          }),
+        let mergedItems = guestItems;
+        let customerItems = base;
+        const resolve = typeof mergeStrategy === 'function' && guestItems.length > 0;
+        if (resolve) {
+          // Custom merges run here on a freshly fetched account list, and
+          // the backend saves the result as-is
+          customerItems = (await client.sync({ guestItems: [] })).items ?? [];
+          mergedItems = await mergeStrategy(
+            applyTombstones(guestItems, guestRemoved),
+            applyTombstones(customerItems, guestRemoved),
+          );
+        }
+        const strategy = typeof mergeStrategy === 'string' ? mergeStrategy : 'union';
+
+        const watermark = syncWatermarkRef.current;
+        const since =
+          base && watermark && watermark.customerId === config.customerId
+            ? watermark.syncedAt
+            : undefined;
+        const result = await client.sync({
+          guestItems: mergedItems,
+          ...(guestRemoved.length > 0 && { guestRemoved }),
+          ...(strategy !== 'union' && { mergeStrategy: strategy }),
+          ...(resolve && { replace: true }),
+          ...(since && { since }),
         });
+        const serverItems =
+          result.changes && base ? applyWishlistDelta(base, result.changes) : result.items;
 
-        if (res.status === 429) {
-          setError(DEFAULT_ERROR_MESSAGES.rateLimited);
-          return;
+        // Update state with merged items from backend
+        if (serverItems) {
+          setItems(
+            applyOperations(
+              serverItems,
+              await getPendingOperations(config.customerId ?? '', guestStorage),
+            ),
+          );
+          if (config.customerId) {
+            broadcast({ type: 'customer', customerId: config.customerId, items: serverItems });
+          }
+          // Clear guest storage after successful sync
+          if (guestItems.length > 0 || guestRemoved.length > 0) {
+            await clearStoredItems(guestStorage);
+            broadcast({ type: 'guest' });
+          }
         }
 
-        const result: SyncWishlistResponse = await res.json();
+        // Save the list, then its watermark, for the next delta sync
+        if (serverItems && result.syncedAt && config.customerId) {
+          await setSyncedItems(config.customerId, serverItems, guestStorage);
+          await setLastSyncTimestamp(config.customerId, result.syncedAt, guestStorage);
+          syncWatermarkRef.current = { customerId: config.customerId, syncedAt: result.syncedAt };
+        }
 
-        if (!res.ok || !result.success) {
-          setError(result.error ?? DEFAULT_ERROR_MESSAGES.syncFailed);
-          return;
+        if (!serverItems) {
+          return undefined;
         }
 
-        // Update state with merged items from backend
-        if (result.items) {
-          setItems(result.items);
-          // Clear localStorage after successful sync
-          clearStoredItems();
+        // The backend only saw the resolver's output, so custom merges
+        // are reported here, as are backends that don't send a report
+        let report: WishlistMergeReport | undefined;
+        if (guestItems.length > 0) {
+          report =
+            typeof mergeStrategy === 'string' && result.report
+              ? result.report
+              : customerItems && createMergeReport(guestItems, customerItems, serverItems);
         }
-      } catch {
-        setError(DEFAULT_ERROR_MESSAGES.network);
+        if (report) {
+          setMergeReport(report);
+        }
+        return { ok: true, report };
+      } catch (err) {
+        setError(getErrorMessage(err), getErrorCode(err));
+        return { ok: false, error: err };
       } finally {
         setIsSyncing(false);
       }
     },
-    [config.apiUrl, config.apiKey, config.customerId, config.shopDomain],
+    [client, config.customerId, mergeStrategy, guestStorage, broadcast],
+  );
+
+  // Persist an operation for later replay
+  const queueOperation = useCallback(
+    async (operation: WishlistOperation) => {
+      if (!config.customerId) return;
+
+      const queue = await enqueueOperation(
+        {
+          ...operation,
+          customerId: config.customerId,
+          queuedAt: new Date().toISOString(),
+        },
+        guestStorage,
+      );
+      setPendingOperations(queue.length);
+    },
+    [config.customerId, guestStorage],
+  );
+
+  // Replay queued operations in order, as a single batch
+  const flushPendingOperations = useCallback(async () => {
+    const customerId = config.customerId;
+    if (!customerId || !client.isEnabled || isFlushingRef.current) return;
+
+    isFlushingRef.current = true;
+    let operations: PendingOperation[] = [];
+    const dropSent = async () => {
+      for (const op of operations) {
+        await removePendingOperation(op, guestStorage);
+      }
+    };
+
+    try {
+      operations = await getPendingOperations(customerId, guestStorage);
+      if (operations.length === 0) return;
+
+      const result = await client.update(
+        toUpdateRequest(
+          operations.map(({ action, item }) => ({ action, item })),
+        ),
+      );
+      await dropSent();
+
+      if (result.items) {
+        setItems(
+          applyOperations(
+            result.items,
+            await getPendingOperations(customerId, guestStorage),
+          ),
+        );
+        broadcast({ type: 'customer', customerId, items: result.items });
+      }
+    } catch (err) {
+      // Still unreachable: keep the queue for next time.
+      // Rejected by the backend: drop it so the queue can drain.
+      if (!shouldQueue(err)) {
+        await dropSent();
+        setError(getErrorMessage(err), getErrorCode(err));
+      }
+    } finally {
+      isFlushingRef.current = false;
+      setPendingOperations((await getPendingOperations(customerId, guestStorage)).length);
+    }
+  }, [client, config.customerId, guestStorage, broadcast]);
+
+  // Replay queued operations on load and when the browser comes back online
+  useEffect(() => {
+    if (isGuest || typeof window === 'undefined') return;
+
+    getPendingOperations(config.customerId ?? '', guestStorage).then((queue) =>
+      setPendingOperations(queue.length),
+    );
+    flushPendingOperations();
+
+    const handleOnline = () => {
+      flushPendingOperations();
+    };
+
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [isGuest, config.customerId, guestStorage, flushPendingOperations]);
+
+  // Coalesce rapid updates into batched requests
+  const batcher = useMemo(
+    () =>
+      createUpdateBatcher(
+        (operations) => client.update(toUpdateRequest(operations)),
+        config.batchWindowMs ?? UPDATE_BATCH_WINDOW_MS,
+      ),
+    [client, config.batchWindowMs],
   );
 
+  // Send anything still waiting in the batch window on unmount
+  useEffect(() => {
+    return () => {
+      batcher.flush();
+    };
+  }, [batcher]);
+
+  // Send an update, queueing it if the backend is unreachable.
+  // Returns the error if the backend rejected the update.
+  const sendUpdate = useCallback(
+    async (operation: WishlistOperation): Promise<unknown> => {
+      const customerId = config.customerId ?? '';
+
+      // Keep operations in order behind anything already queued
+      if ((await getPendingOperations(customerId, guestStorage)).length > 0) {
+        await queueOperation(operation);
+        flushPendingOperations();
+        return undefined;
+      }
+
+      try {
+        const result = await batcher.enqueue(operation);
+
+        // Reconcile with the server list once no newer updates are in flight
+        if (result.items && batcher.pending === 0) {
+          setItems(
+            applyOperations(
+              result.items,
+              await getPendingOperations(customerId, guestStorage),
+            ),
+          );
+          broadcast({ type: 'customer', customerId, items: result.items });
+        }
+        return undefined;
+      } catch (err) {
+        if (shouldQueue(err)) {
+          await queueOperation(operation);
+          return undefined;
+        }
+        return err;
+      }
+    },
+    [
+      batcher,
+      config.customerId,
+      guestStorage,
+      queueOperation,
+      flushPendingOperations,
+      broadcast,
+    ],
+  );
+
+  // Pick up changes made in other tabs
+  useEffect(() => {
+    if (!syncTabs || typeof window === 'undefined') return;
+
+    const tabSync = createTabSync((message) => {
+      if (message.type === 'guest') {
+        // Another tab merged or discarded the guest items
+        if (!isGuest && deferMerge) {
+          getStoredItems(guestStorage, config.guestLimits).then(setGuestMergeItems);
+          return;
+        }
+        if (!isGuest || !enableGuestWishlist) return;
+
+        // Guest storage is the source of truth, so concurrent edits
+        // from several tabs have already been applied to it
+        getStoredItems(guestStorage, config.guestLimits).then(setItems);
+        return;
+      }
+
+      const customerId = config.customerId;
+      if (message.customerId !== customerId) return;
+
+      getPendingOperations(customerId, guestStorage).then((pending) => {
+        // Our own in-flight updates will return a list that includes this one
+        if (batcher.pending > 0 || isFlushingRef.current) return;
+
+        setItems(applyOperations(message.items, pending));
+      });
+    }, storageScope);
+    tabSyncRef.current = tabSync;
+
+    return () => {
+      tabSync.close();
+      if (tabSyncRef.current === tabSync) {
+        tabSyncRef.current = undefined;
+      }
+    };
+  }, [
+    syncTabs,
+    isGuest,
+    enableGuestWishlist,
+    deferMerge,
+    config.customerId,
+    config.guestLimits,
+    guestStorage,
+    storageScope,
+    batcher,
+  ]);
+
   // Add item to wishlist
   const add = useCallback(
     async (product: ProductInfo) => {
@@ -209,42 +675,15 @@ export function WishlistProvider({ config, children }: WishlistProviderProps) {
       });
 
       if (isGuest && enableGuestWishlist) {
-        // Guest: save to localStorage
-        addStoredItem(item);
-      } else if (!isGuest && config.apiKey) {
-        // Customer: update metafield via backend
+        // Guest: save to guest storage
         try {
-          const url = `${config.apiUrl}${API_ENDPOINTS.update}`;
-          const res = await fetch(url, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${config.apiKey}`,
-            },
-            body: JSON.stringify({
-              customerId: config.customerId,
-              action: 'add',
-              item,
-              shop: config.shopDomain,
-            }),
-          });
-
-          const result: UpdateWishlistResponse = await res.json();
-
-          if (!res.ok || !result.success) {
-            // Rollback optimistic update
-            setItems((prev) =>
-              prev.filter(
-                (existing) =>
-                  !(
-                    existing.productId === item.productId &&
-                    existing.variantId === item.variantId
-                  ),
-              ),
-            );
-            setError(result.error ?? DEFAULT_ERROR_MESSAGES.unknown);
-          }
-        } catch {
+          const saved = await addStoredItem(item, guestStorage, config.guestLimits);
+
+          // Drop anything evicted to make room
+          const savedKeys = new Set(saved.map(createItemKey));
+          setItems((prev) => prev.filter((existing) => savedKeys.has(createItemKey(existing))));
+          broadcast({ type: 'guest' });
+        } catch (err) {
           // Rollback optimistic update
           setItems((prev) =>
             prev.filter(
@@ -255,17 +694,34 @@ export function WishlistProvider({ config, children }: WishlistProviderProps) {
                 ),
             ),
           );
-          setError(DEFAULT_ERROR_MESSAGES.network);
+          setError(getErrorMessage(err), getErrorCode(err));
+        }
+      } else if (!isGuest && client.isEnabled) {
+        // Customer: update metafield via backend
+        const err = await sendUpdate({ action: 'add', item });
+        if (err) {
+          // Rollback optimistic update
+          setItems((prev) =>
+            prev.filter(
+              (existing) =>
+                !(
+                  existing.productId === item.productId &&
+                  existing.variantId === item.variantId
+                ),
+            ),
+          );
+          setError(getErrorMessage(err), getErrorCode(err));
         }
       }
     },
     [
       isGuest,
       enableGuestWishlist,
-      config.apiUrl,
-      config.apiKey,
-      config.customerId,
-      config.shopDomain,
+      guestStorage,
+      config.guestLimits,
+      client,
+      sendUpdate,
+      broadcast,
     ],
   );
 
@@ -281,44 +737,35 @@ export function WishlistProvider({ config, children }: WishlistProviderProps) {
       );
 
       if (isGuest && enableGuestWishlist) {
-        // Guest: remove from localStorage
-        removeStoredItem(productId, variantId);
-      } else if (!isGuest && config.apiKey) {
-        // Customer: update metafield via backend
+        // Guest: remove from guest storage
         try {
-          const url = `${config.apiUrl}${API_ENDPOINTS.update}`;
-          const res = await fetch(url, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${config.apiKey}`,
-            },
-            body: JSON.stringify({
-              customerId: config.customerId,
-              action: 'remove',
-              item: { productId, variantId },
-              shop: config.shopDomain,
-            }),
-          });
-
-          const result: UpdateWishlistResponse = await res.json();
-
-          if (!res.ok || !result.success) {
-            // Rollback: we'd need to store the removed item to rollback
-            setError(result.error ?? DEFAULT_ERROR_MESSAGES.unknown);
-          }
-        } catch {
-          setError(DEFAULT_ERROR_MESSAGES.network);
+          await removeStoredItem(productId, variantId, guestStorage, config.guestLimits);
+          broadcast({ type: 'guest' });
+        } catch (err) {
+          // Rollback to whatever storage still holds
+          setItems(await getStoredItems(guestStorage, config.guestLimits));
+          setError(getErrorMessage(err), getErrorCode(err));
+        }
+      } else if (!isGuest && client.isEnabled) {
+        // Customer: update metafield via backend
+        const err = await sendUpdate({
+          action: 'remove',
+          item: { productId, variantId },
+        });
+        if (err) {
+          // Rollback: we'd need to store the removed item to rollback
+          setError(getErrorMessage(err), getErrorCode(err));
         }
       }
     },
     [
       isGuest,
       enableGuestWishlist,
-      config.apiUrl,
-      config.apiKey,
-      config.customerId,
-      config.shopDomain,
+      guestStorage,
+      config.guestLimits,
+      client,
+      sendUpdate,
+      broadcast,
     ],
   );
 
@@ -355,46 +802,181 @@ export function WishlistProvider({ config, children }: WishlistProviderProps) {
     setItems([]);
 
     if (isGuest && enableGuestWishlist) {
-      clearStoredItems();
-    } else if (!isGuest && config.apiKey) {
+      await clearStoredItems(guestStorage);
+      broadcast({ type: 'guest' });
+    } else if (!isGuest && client.isEnabled) {
       // Would need a clear endpoint on backend
       // For now, just clear local state
     }
-  }, [isGuest, enableGuestWishlist, config.apiKey]);
+  }, [isGuest, enableGuestWishlist, guestStorage, client, broadcast]);
+
+  // Prices depend on the buyer's market; look items up again when it changes
+  useEffect(() => {
+    setLiveProducts((prev) => (Object.keys(prev).length > 0 ? {} : prev));
+  }, [config.shopDomain, config.country, config.language]);
+
+  // Fetch current product data for items we haven't looked up yet
+  useEffect(() => {
+    if (!hydrateProducts) return;
+
+    const missing = items.map(getLiveProductId).filter((id) => !(id in liveProducts));
+    if (missing.length === 0) return;
+
+    const controller = new AbortController();
+
+    loadLiveProducts(config, missing, controller.signal)
+      .then(async (loaded) => {
+        // Non-GID items never get an entry; don't re-render for them
+        if (Object.keys(loaded).length > 0) {
+          setLiveProducts((prev) => ({ ...prev, ...loaded }));
+        }
 
-  // Manual sync trigger
+        const backInStock = new Set(
+          await recordAvailability(loaded, guestStorage, items.map(getLiveProductId)),
+        );
+        for (const item of items) {
+          const id = getLiveProductId(item);
+          if (backInStock.has(id)) {
+            onBackInStockRef.current?.(overlayLiveProduct(item, loaded[id]));
+          }
+        }
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          console.error('WishBridge: Failed to load live product data', err);
+        }
+      });
+
+    return () => controller.abort();
+  }, [
+    items,
+    liveProducts,
+    hydrateProducts,
+    config.shopDomain,
+    config.storefrontAccessToken,
+    config.storefrontApiVersion,
+    config.country,
+    config.language,
+  ]);
+
+  // Saved items with current product data overlaid
+  const displayItems = useMemo(
+    () =>
+      hydrateProducts
+        ? items.map((item) => overlayLiveProduct(item, liveProducts[getLiveProductId(item)]))
+        : items,
+    [items, liveProducts, hydrateProducts],
+  );
+
+  // Compare saved prices with current pricing
+  const priceChanges = useMemo(
+    () => (hydrateProducts ? getPriceChanges(items, liveProducts) : []),
+    [items, liveProducts, hydrateProducts],
+  );
+
+  // Manual sync trigger. Guest items waiting for confirmation are left
+  // for `mergeGuestItems`. Rejects when the sync fails.
   const sync = useCallback(async () => {
-    const storedItems = getStoredItems();
-    await syncWishlist(storedItems);
-  }, [syncWishlist]);
+    const withGuest = isGuest || !deferMerge;
+    const storedItems = withGuest ? await getStoredItems(guestStorage, config.guestLimits) : [];
+    const storedRemoved = withGuest
+      ? await getStoredTombstones(guestStorage, config.guestLimits)
+      : [];
+    // The loaded list is the base for a delta sync
+    const outcome = await syncWishlist(
+      storedItems,
+      !isGuest && !isLoading ? items : undefined,
+      storedRemoved,
+    );
+    if (outcome && !outcome.ok) {
+      throw outcome.error;
+    }
+    return outcome?.report;
+  }, [syncWishlist, guestStorage, config.guestLimits, isGuest, deferMerge, isLoading, items]);
+
+  // Drop the guest items waiting for confirmation
+  const discardGuestItems = useCallback(async () => {
+    setGuestMergeItems([]);
+    await clearStoredItems(guestStorage);
+    broadcast({ type: 'guest' });
+  }, [guestStorage, broadcast]);
+
+  // Merge the guest items the shopper picked, then drop the rest.
+  // Guest removals aren't sent: the shopper only vouched for the picks.
+  // Resolves with whether the merge went through.
+  const mergeGuestItems = useCallback(
+    async (selected: WishlistItem[] = guestMergeItems) => {
+      if (isGuest) return false;
+
+      if (selected.length === 0) {
+        await discardGuestItems();
+        return true;
+      }
+
+      const outcome = await syncWishlist(selected, !isLoading ? items : undefined);
+      if (!outcome?.ok) {
+        return false;
+      }
+
+      await discardGuestItems();
+      return true;
+    },
+    [isGuest, guestMergeItems, syncWishlist, isLoading, items, discardGuestItems],
+  );
+
+  // Nothing to ask about when the account already has every guest item
+  useEffect(() => {
+    if (isLoading || guestMergeItems.length === 0) return;
+
+    if (findNewItems(items, guestMergeItems).length === 0) {
+      discardGuestItems();
+    }
+  }, [isLoading, items, guestMergeItems, discardGuestItems]);
 
   const value = useMemo(
     () => ({
       config,
-      items,
-      count: items.length,
+      client,
+      items: displayItems,
+      count: displayItems.length,
       isLoading,
       isSyncing,
-      error,
+      error: failure?.message,
+      errorCode: failure?.code,
+      retryState,
+      pendingOperations,
+      priceChanges,
       add,
       remove,
       toggle,
       isWishlisted,
       clear,
       sync,
+      mergeReport,
+      guestMergeItems,
+      mergeGuestItems,
+      discardGuestItems,
     }),
     [
       config,
-      items,
+      client,
+      displayItems,
       isLoading,
       isSyncing,
-      error,
+      failure,
+      retryState,
+      pendingOperations,
+      priceChanges,
       add,
       remove,
       toggle,
       isWishlisted,
       clear,
       sync,
+      mergeReport,
+      guestMergeItems,
+      mergeGuestItems,
+      discardGuestItems,
     ],
   );
 
@@ -9,7 +9,15 @@ import { useCallback, useMemo } from 'react';
 
 import { useWishlistContext } from '../components/WishlistProvider.js';
 
-import type { ProductInfo, WishlistItem } from '../types.js';
+import type { WishBridgeErrorCode } from '../utils/errors.js';
+import type {
+  HydratedWishlistItem,
+  PriceChange,
+  ProductInfo,
+  RetryState,
+  WishlistItem,
+  WishlistMergeReport,
+} from '../types.js';
 
 export interface UseWishlistOptions {
   /**
@@ -30,9 +38,9 @@ export interface UseWishlistOptions {
 
 export interface UseWishlistReturn {
   /**
-   * All wishlist items
+   * All wishlist items, with live product data when available
    */
-  items: WishlistItem[];
+  items: HydratedWishlistItem[];
 
   /**
    * Number of items in wishlist
@@ -54,6 +62,28 @@ export interface UseWishlistReturn {
    */
   error: string | undefined;
 
+  /**
+   * Machine-readable code of the current error, e.g. `'wishlist_full'`
+   * when a guest's list has no room left
+   */
+  errorCode: WishBridgeErrorCode | undefined;
+
+  /**
+   * Details of the backend call currently being retried, if any
+   */
+  retryState: RetryState | undefined;
+
+  /**
+   * Number of changes saved locally and waiting to reach the backend
+   */
+  pendingOperations: number;
+
+  /**
+   * Items whose current price differs from the price saved when they
+   * were added. Empty until live product data has loaded.
+   */
+  priceChanges: PriceChange[];
+
   /**
    * Add a product to the wishlist
    */
@@ -80,9 +110,10 @@ export interface UseWishlistReturn {
   clear: () => Promise<void>;
 
   /**
-   * Manually trigger a sync with the backend
+   * Manually trigger a sync with the backend. Resolves with the merge
+   * report when guest items were merged.
    */
-  sync: () => Promise<void>;
+  sync: () => Promise<WishlistMergeReport | undefined>;
 }
 
 /**
@@ -177,6 +208,10 @@ export function useWishlist(options: UseWishlistOptions = {}): UseWishlistReturn
       isLoading: context.isLoading,
       isSyncing: context.isSyncing,
       error: context.error,
+      errorCode: context.errorCode,
+      retryState: context.retryState,
+      pendingOperations: context.pendingOperations,
+      priceChanges: context.priceChanges,
       add,
       remove,
       toggle,
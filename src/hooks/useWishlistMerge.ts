@@ -0,0 +1,99 @@
+/**
+ * useWishlistMerge Hook
+ *
+ * Lets the shopper review guest items before they're merged into their
+ * account. Requires `confirmMerge: true` on the provider config.
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+
+import { useWishlistContext } from '../components/WishlistProvider.js';
+import { findNewItems } from '../utils/merge.js';
+
+import type { WishlistItem } from '../types.js';
+
+export interface UseWishlistMergeReturn {
+  /**
+   * Guest items saved in this browser, waiting for confirmation
+   */
+  guestItems: WishlistItem[];
+
+  /**
+   * Guest items that aren't in the account's wishlist yet
+   */
+  newItems: WishlistItem[];
+
+  /**
+   * Whether there are new items to ask about
+   */
+  hasPendingMerge: boolean;
+
+  /**
+   * Whether a merge is in progress
+   */
+  isMerging: boolean;
+
+  /**
+   * Merge the picked items (all new items by default) and drop the rest.
+   * Resolves with false when the sync failed; the guest items are kept.
+   */
+  merge: (selected?: WishlistItem[]) => Promise<boolean>;
+
+  /**
+   * Drop the guest items without merging
+   */
+  discard: () => Promise<void>;
+}
+
+/**
+ * Hook for confirming the guest-to-customer merge
+ *
+ * @example
+ * ```tsx
+ * function MergeBanner() {
+ *   const { newItems, hasPendingMerge, merge, discard } = useWishlistMerge();
+ *
+ *   if (!hasPendingMerge) return null;
+ *
+ *   return (
+ *     <div>
+ *       We found {newItems.length} items from this browser.
+ *       <button onClick={() => merge()}>Add to my wishlist</button>
+ *       <button onClick={discard}>Not mine</button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useWishlistMerge(): UseWishlistMergeReturn {
+  const context = useWishlistContext();
+  const [isMerging, setIsMerging] = useState(false);
+  const { items, isLoading, guestMergeItems, mergeGuestItems, discardGuestItems } = context;
+
+  // Wait for the account's list, so items it already has aren't offered
+  const newItems = useMemo(
+    () => (isLoading ? [] : findNewItems(items, guestMergeItems)),
+    [items, isLoading, guestMergeItems],
+  );
+
+  const merge = useCallback(
+    async (selected: WishlistItem[] = newItems) => {
+      setIsMerging(true);
+      try {
+        return await mergeGuestItems(selected);
+      } finally {
+        setIsMerging(false);
+      }
+    },
+    [mergeGuestItems, newItems],
+  );
+
+  return {
+    guestItems: guestMergeItems,
+    newItems,
+    hasPendingMerge: newItems.length > 0,
+    isMerging,
+    merge,
+    discard: discardGuestItems,
+  };
+}
@@ -8,6 +8,8 @@ import { useCallback, useEffect, useState } from 'react';
 
 import { useWishlistContext } from '../components/WishlistProvider.js';
 
+import type { WishlistMergeReport } from '../types.js';
+
 export interface UseWishlistSyncOptions {
   /**
    * Automatically sync when customer logs in
@@ -16,9 +18,10 @@ export interface UseWishlistSyncOptions {
   autoSync?: boolean;
 
   /**
-   * Callback on successful sync
+   * Callback on successful sync, with the merge report when guest
+   * items were merged
    */
-  onSyncSuccess?: () => void;
+  onSyncSuccess?: (report: WishlistMergeReport | undefined) => void;
 
   /**
    * Callback on sync error
@@ -37,6 +40,11 @@ export interface UseWishlistSyncReturn {
    */
   syncError: string | undefined;
 
+  /**
+   * What happened to the guest items in the latest merge
+   */
+  mergeReport: WishlistMergeReport | undefined;
+
   /**
    * Manually trigger sync
    */
@@ -44,14 +52,16 @@ export interface UseWishlistSyncReturn {
 }
 
 /**
- * Hook for managing wishlist sync between guest localStorage and customer metafields
+ * Hook for managing wishlist sync between guest storage and customer metafields
  *
  * @example
  * ```tsx
  * // In your login success handler
  * const { triggerSync, isSyncing } = useWishlistSync({
- *   onSyncSuccess: () => {
- *     console.log('Wishlist synced to your account!');
+ *   onSyncSuccess: (report) => {
+ *     if (report) {
+ *       toast(`${report.added.length} items added, ${report.duplicates.length} already saved`);
+ *     }
  *   },
  *   onSyncError: (error) => {
  *     console.error('Failed to sync wishlist:', error);
@@ -83,8 +93,8 @@ export function useWishlistSync(
 
     context
       .sync()
-      .then(() => {
-        onSyncSuccess?.();
+      .then((report) => {
+        onSyncSuccess?.(report);
       })
       .catch((err) => {
         const errorMsg = err instanceof Error ? err.message : 'Sync failed';
@@ -100,8 +110,8 @@ export function useWishlistSync(
 
   const triggerSync = useCallback(async () => {
     try {
-      await context.sync();
-      onSyncSuccess?.();
+      const report = await context.sync();
+      onSyncSuccess?.(report);
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Sync failed';
       onSyncError?.(errorMsg);
@@ -111,6 +121,7 @@ export function useWishlistSync(
   return {
     isSyncing: context.isSyncing,
     syncError: context.error,
+    mergeReport: context.mergeReport,
     triggerSync,
   };
 }
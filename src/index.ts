@@ -3,7 +3,7 @@
  *
  * Wishlist components for Shopify Hydrogen storefronts.
  * Stores wishlist data in Shopify customer metafields for logged-in users,
- * with localStorage fallback for guest users.
+ * with a local fallback for guest users.
  *
  * @example
  * ```tsx
@@ -60,11 +60,27 @@ export { WishlistButton } from './components/WishlistButton.js';
 export { WishlistCount } from './components/WishlistCount.js';
 export { WishlistDrawer } from './components/WishlistDrawer.js';
 export { WishlistPage } from './components/WishlistPage.js';
+export { WishlistMergePrompt } from './components/WishlistMergePrompt.js';
 
 // Hooks
 export { useWishlist } from './hooks/useWishlist.js';
 export { useWishlistSync } from './hooks/useWishlistSync.js';
 export { useWishlistCount } from './hooks/useWishlistCount.js';
+export { useWishlistMerge } from './hooks/useWishlistMerge.js';
+
+// Client
+export { WishBridgeClient } from './utils/client.js';
+export { WishBridgeError, isWishBridgeError, getErrorCode } from './utils/errors.js';
+
+// Server
+export { proxyWishlistRequest } from './server/proxy.js';
+export { getCustomerIdFromSession } from './server/customerAccount.js';
+export { getCustomerWishlist, getGuestWishlist } from './server/loader.js';
+export {
+  handleWishlistMetafieldRequest,
+  readCustomerWishlistMetafield,
+  writeCustomerWishlistMetafield,
+} from './server/metafield.js';
 
 // Utils
 export {
@@ -74,18 +90,49 @@ export {
   extractNumericId,
   sanitizeInput,
   isValidWishlistItem,
+  isValidWishlistOperation,
+  isValidWishlistTombstone,
+  isValidMergeStrategy,
+  parseUpdateOperations,
 } from './utils/validation.js';
 export {
   DEFAULT_ERROR_MESSAGES,
   DEFAULT_SUCCESS_MESSAGES,
   API_ENDPOINTS,
+  DEFAULT_API_URL,
+  REQUEST_TIMEOUT_MS,
+  UPDATE_BATCH_WINDOW_MS,
+  DEFAULT_RETRY_POLICY,
   STORAGE_KEYS,
+  MERGE_STRATEGIES,
+  TOMBSTONE_TTL_MS,
   METAFIELD_NAMESPACE,
   METAFIELD_KEY,
+  DEFAULT_STOREFRONT_API_VERSION,
+  STOREFRONT_NODES_LIMIT,
+  LIVE_PRODUCT_CACHE_TTL_MS,
+  METAFIELD_MAX_VALUE_BYTES,
+  METAFIELD_MAX_SHARDS,
+  WISHLIST_SCHEMA_VERSION,
+  INDEXED_DB_NAME,
+  INDEXED_DB_STORE,
+  TAB_SYNC_CHANNEL,
+  GUEST_COOKIE_NAME,
+  GUEST_COOKIE_MAX_BYTES,
+  GUEST_COOKIE_MAX_AGE,
+  PLACEHOLDER_PRODUCT_TITLE,
 } from './utils/constants.js';
+export { diffWishlists, applyWishlistDelta, isEmptyDelta } from './utils/delta.js';
 export {
   mergeWishlists,
   createItemKey,
+  applyOperations,
+  applyTombstones,
+  mergeTombstones,
+  pruneTombstones,
+  recordTombstones,
+  mergeWishlistsWithReport,
+  createMergeReport,
   findNewItems,
   deduplicateItems,
   sortByNewest,
@@ -97,23 +144,118 @@ export {
 export {
   isStorageAvailable,
   getStoredItems,
+  getStoredTombstones,
   setStoredItems,
   clearStoredItems,
   addStoredItem,
   removeStoredItem,
   isItemStored,
+  getLastSyncTimestamp,
+  setLastSyncTimestamp,
+  getSyncedItems,
+  setSyncedItems,
+  removeExpiredItems,
+  evictOldestItems,
 } from './utils/storage.js';
+export {
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createIndexedDBAdapter,
+  createMemoryStorageAdapter,
+  createCookieStorageAdapter,
+  createScopedStorageAdapter,
+  getScopedStorageKey,
+} from './utils/adapters.js';
+export { encodeWishlistCookie, decodeWishlistCookie, readCookie } from './utils/cookie.js';
+export { createTabSync, parseTabSyncMessage } from './utils/tabs.js';
+export {
+  getPendingOperations,
+  enqueueOperation,
+  removePendingOperation,
+  clearPendingOperations,
+} from './utils/queue.js';
+export { createUpdateBatcher, collapseOperations } from './utils/batch.js';
+export { createMockWishBridge } from './utils/mock.js';
+export {
+  CUSTOMER_WISHLIST_QUERY,
+  parseWishlistMetafield,
+  canReadCustomerWishlist,
+  queryStorefront,
+  fetchCustomerWishlist,
+  fetchCustomerWishlistWithTombstones,
+} from './utils/storefront.js';
+export {
+  PRODUCT_NODES_QUERY,
+  getProductNodesQuery,
+  getLiveProductId,
+  canHydrateProducts,
+  fetchLiveProducts,
+  parseProductNodes,
+  loadLiveProducts,
+  clearLiveProductCache,
+  overlayLiveProduct,
+} from './utils/products.js';
+export {
+  getPriceChange,
+  getPriceChanges,
+  isPriceDrop,
+  indexPriceChanges,
+  sortByPriceDrop,
+} from './utils/prices.js';
+export { sortWishlistItems } from './utils/sort.js';
+export { isPurchasable, recordAvailability } from './utils/availability.js';
+export {
+  createWishlistEnvelope,
+  getPayloadVersion,
+  migrateWishlistPayload,
+  parseWishlistPayload,
+} from './utils/schema.js';
+export {
+  WISHLIST_SHARD_KEYS,
+  compactWishlistItem,
+  expandWishlistItem,
+  encodeWishlistMetafields,
+  decodeWishlistMetafields,
+  decodeWishlistTombstones,
+  getWishlistShardCount,
+} from './utils/encoding.js';
 
 // Types
 export type {
   WishlistItem,
+  WishlistItemRef,
+  WishlistTombstone,
+  WishlistEnvelope,
+  CompactWishlistItem,
+  LiveProductData,
+  HydratedWishlistItem,
+  PriceChange,
   ProductInfo,
+  RetryPolicy,
+  RetryState,
+  WishBridgeEndpoint,
+  WishBridgeRequest,
+  RequestInterceptor,
+  ResponseInterceptor,
+  WishBridgeInterceptors,
   WishBridgeConfig,
+  WishlistStorage,
+  WishlistStorageAdapter,
+  GuestEvictionStrategy,
+  GuestWishlistLimits,
+  WishlistMergeStrategy,
+  WishlistMergeResolver,
+  WishlistMergeReport,
+  WishlistMergeConflict,
   WishlistState,
   SyncWishlistRequest,
   SyncWishlistResponse,
+  WishlistDelta,
+  WishlistOperation,
+  BatchUpdateWishlistRequest,
   UpdateWishlistRequest,
   UpdateWishlistResponse,
+  PendingOperation,
   AnalyticsEventRequest,
   AnalyticsEventResponse,
   CreateShareLinkRequest,
@@ -121,14 +263,51 @@ export type {
   GetShareLinkResponse,
 } from './types.js';
 
+export type {
+  WishBridgeClientOptions,
+  WishBridgeRequestOptions,
+} from './utils/client.js';
+export type { WishBridgeErrorCode } from './utils/errors.js';
+export type { UpdateBatcher, SendBatch } from './utils/batch.js';
+export type { MergeWishlistsOptions } from './utils/merge.js';
+export type { CustomerWishlistQueryData } from './utils/storefront.js';
+export type { LiveProductMap, ProductNodesQueryData } from './utils/products.js';
+export type { WishlistMetafieldEntry, WishlistShardMetafield } from './utils/encoding.js';
+export type { WishlistMigration } from './utils/schema.js';
+export type {
+  CookieAdapterOptions,
+  IndexedDBAdapterOptions,
+  StorageScope,
+} from './utils/adapters.js';
+export type { TabSync, TabSyncMessage } from './utils/tabs.js';
+export type { WishlistProxyOptions } from './server/proxy.js';
+export type { CustomerAccountClient } from './server/customerAccount.js';
+export type {
+  StorefrontClient,
+  GetCustomerWishlistOptions,
+  GetGuestWishlistOptions,
+} from './server/loader.js';
+export type {
+  CustomerWishlistMetafield,
+  WishlistMetafieldRouteOptions,
+} from './server/metafield.js';
+export type {
+  MockWishBridge,
+  MockWishBridgeOptions,
+  MockFailure,
+  MockRequestRecord,
+} from './utils/mock.js';
+
 // Component props types
 export type { WishlistProviderProps } from './components/WishlistProvider.js';
 export type { WishlistButtonProps } from './components/WishlistButton.js';
 export type { WishlistCountProps } from './components/WishlistCount.js';
 export type { WishlistDrawerProps } from './components/WishlistDrawer.js';
 export type { WishlistPageProps, SortOption } from './components/WishlistPage.js';
+export type { WishlistMergePromptProps } from './components/WishlistMergePrompt.js';
 
 // Hook return types
 export type { UseWishlistOptions, UseWishlistReturn } from './hooks/useWishlist.js';
 export type { UseWishlistSyncOptions, UseWishlistSyncReturn } from './hooks/useWishlistSync.js';
 export type { UseWishlistCountReturn } from './hooks/useWishlistCount.js';
+export type { UseWishlistMergeReturn } from './hooks/useWishlistMerge.js';
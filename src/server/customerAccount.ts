@@ -0,0 +1,52 @@
+/**
+ * Customer Account API helpers for Hydrogen loaders and actions
+ */
+
+/**
+ * Minimal shape of Hydrogen's `context.customerAccount` client
+ */
+export interface CustomerAccountClient {
+  isLoggedIn: () => Promise<boolean>;
+  query: <TData = unknown>(
+    query: string,
+    options?: { variables?: Record<string, unknown> },
+  ) => Promise<{ data?: TData | null; errors?: unknown }>;
+  mutate: <TData = unknown>(
+    mutation: string,
+    options?: { variables?: Record<string, unknown> },
+  ) => Promise<{ data?: TData | null; errors?: unknown }>;
+}
+
+const CUSTOMER_ID_QUERY = `#graphql
+  query WishBridgeCustomerId {
+    customer {
+      id
+    }
+  }
+`;
+
+/**
+ * Resolve the logged-in customer's GID from the session.
+ * Returns null for guests or when the session is invalid.
+ *
+ * @example
+ * ```ts
+ * const customerId = await getCustomerIdFromSession(context.customerAccount);
+ * ```
+ */
+export async function getCustomerIdFromSession(
+  customerAccount: Pick<CustomerAccountClient, 'isLoggedIn' | 'query'>,
+): Promise<string | null> {
+  try {
+    if (!(await customerAccount.isLoggedIn())) {
+      return null;
+    }
+
+    const { data } = await customerAccount.query<{ customer?: { id?: string } | null }>(
+      CUSTOMER_ID_QUERY,
+    );
+    return data?.customer?.id ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Request/response helpers shared by the server route handlers
+ */
+
+import { API_ENDPOINTS } from '../utils/constants.js';
+
+import type { WishBridgeEndpoint } from '../types.js';
+
+/**
+ * JSON response
+ */
+export function json(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Resolve the WishBridge endpoint for a route request. Defaults to the last
+ * segment of the request path, so splat routes work without an explicit value.
+ */
+export function resolveEndpoint(
+  request: Request,
+  endpoint?: string,
+): WishBridgeEndpoint | undefined {
+  const name = endpoint ?? new URL(request.url).pathname.split('/').filter(Boolean).pop();
+
+  if (!name || !Object.prototype.hasOwnProperty.call(API_ENDPOINTS, name)) {
+    return undefined;
+  }
+
+  return name as WishBridgeEndpoint;
+}
+
+/**
+ * Parse a JSON object request body, or undefined if it isn't one
+ */
+export async function readJsonBody(
+  request: Request,
+): Promise<Record<string, unknown> | undefined> {
+  try {
+    const body: unknown = await request.json();
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return undefined;
+    }
+    return body as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+}
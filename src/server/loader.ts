@@ -0,0 +1,171 @@
+/**
+ * Hydrogen loader helpers for server-rendering wishlist state
+ */
+
+import { getScopedStorageKey } from '../utils/adapters.js';
+import { GUEST_COOKIE_NAME, STOREFRONT_NODES_LIMIT } from '../utils/constants.js';
+import { decodeWishlistCookie, readCookie } from '../utils/cookie.js';
+import {
+  getLiveProductId,
+  overlayLiveProduct,
+  parseProductNodes,
+  PRODUCT_NODES_QUERY,
+} from '../utils/products.js';
+import { CUSTOMER_WISHLIST_QUERY, parseWishlistMetafield } from '../utils/storefront.js';
+
+import type { StorageScope } from '../utils/adapters.js';
+import type { LiveProductMap, ProductNodesQueryData } from '../utils/products.js';
+import type { CustomerWishlistQueryData } from '../utils/storefront.js';
+import type { WishlistItem } from '../types.js';
+
+/**
+ * Minimal shape of Hydrogen's `context.storefront` client
+ */
+export interface StorefrontClient {
+  query: <TData = unknown>(
+    query: string,
+    options?: { variables?: Record<string, unknown>; cache?: unknown },
+  ) => Promise<TData>;
+  CacheNone?: () => unknown;
+}
+
+export interface GetCustomerWishlistOptions {
+  /**
+   * Hydrogen Storefront API client (`context.storefront`)
+   */
+  storefront: StorefrontClient;
+
+  /**
+   * Storefront API customer access token
+   */
+  customerAccessToken: string | null | undefined;
+}
+
+/**
+ * Read the customer's wishlist in a Hydrogen loader, to pass as
+ * `initialItems` to WishlistProvider.
+ *
+ * Resolves with an empty list for guests, and with null when the
+ * metafield couldn't be read (the provider then loads client-side).
+ *
+ * @example
+ * ```ts
+ * // app/root.tsx
+ * export async function loader({ context }: LoaderFunctionArgs) {
+ *   const customerAccessToken = await context.session.get('customerAccessToken');
+ *   const wishlistItems = await getCustomerWishlist({
+ *     storefront: context.storefront,
+ *     customerAccessToken: customerAccessToken?.accessToken,
+ *   });
+ *   return { wishlistItems };
+ * }
+ *
+ * // In the component
+ * const { wishlistItems } = useLoaderData<typeof loader>();
+ * <WishlistProvider config={config} initialItems={wishlistItems ?? undefined}>
+ * ```
+ */
+export async function getCustomerWishlist({
+  storefront,
+  customerAccessToken,
+}: GetCustomerWishlistOptions): Promise<WishlistItem[] | null> {
+  if (!customerAccessToken) {
+    return [];
+  }
+
+  try {
+    const data = await storefront.query<CustomerWishlistQueryData>(CUSTOMER_WISHLIST_QUERY, {
+      variables: { customerAccessToken },
+      // Customer data must never be served from a shared cache
+      cache: storefront.CacheNone?.(),
+    });
+
+    if (!data?.customer) {
+      return null;
+    }
+
+    return parseWishlistMetafield(data.customer.metafield?.value, data.customer.shards);
+  } catch {
+    return null;
+  }
+}
+
+export interface GetGuestWishlistOptions {
+  /**
+   * Incoming request; the guest cookie is read from its `Cookie` header
+   */
+  request: Request;
+
+  /**
+   * Hydrogen Storefront API client (`context.storefront`), used to fill in
+   * titles, images and prices. Without it items keep a placeholder title,
+   * which is enough for `WishlistButton` and `WishlistCount`.
+   */
+  storefront?: StorefrontClient;
+
+  /**
+   * Shop and `storageNamespace` the provider uses, which pick the cookie
+   */
+  scope: StorageScope;
+
+  /**
+   * Cookie name, if changed on `createCookieStorageAdapter`
+   * @default GUEST_COOKIE_NAME
+   */
+  cookieName?: string;
+}
+
+/**
+ * Read a guest's wishlist from the cookie written by
+ * `createCookieStorageAdapter`, to pass as `initialItems` to
+ * WishlistProvider.
+ *
+ * Resolves with an empty list when there is no cookie. If product data
+ * can't be fetched, items are returned with placeholder titles.
+ *
+ * @example
+ * ```ts
+ * // app/root.tsx
+ * export async function loader({ request, context }: LoaderFunctionArgs) {
+ *   const wishlistItems = customerAccessToken
+ *     ? await getCustomerWishlist({ storefront: context.storefront, customerAccessToken })
+ *     : await getGuestWishlist({
+ *         request,
+ *         storefront: context.storefront,
+ *         scope: { shopDomain: 'my-store.myshopify.com' },
+ *       });
+ *   return { wishlistItems };
+ * }
+ * ```
+ */
+export async function getGuestWishlist({
+  request,
+  storefront,
+  scope,
+  cookieName = GUEST_COOKIE_NAME,
+}: GetGuestWishlistOptions): Promise<WishlistItem[]> {
+  const items = decodeWishlistCookie(
+    readCookie(request.headers.get('Cookie'), getScopedStorageKey(cookieName, scope)),
+  );
+
+  if (!storefront || items.length === 0) {
+    return items;
+  }
+
+  try {
+    const ids = [...new Set(items.map(getLiveProductId))];
+    const live: LiveProductMap = {};
+
+    for (let start = 0; start < ids.length; start += STOREFRONT_NODES_LIMIT) {
+      const batch = ids.slice(start, start + STOREFRONT_NODES_LIMIT);
+      const data = await storefront.query<ProductNodesQueryData>(PRODUCT_NODES_QUERY, {
+        variables: { ids: batch },
+      });
+      Object.assign(live, parseProductNodes(batch, data));
+    }
+
+    return items.map((item) => overlayLiveProduct(item, live[getLiveProductId(item)]));
+  } catch {
+    return items;
+  }
+}
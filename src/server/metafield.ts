@@ -0,0 +1,318 @@
+/**
+ * Backend-less customer wishlists
+ *
+ * Reads and writes the `wishbridge.items` customer metafield directly
+ * through the Customer Account API, so stores can run without the hosted
+ * WishBridge service. Items keep the same `WishlistItem` JSON format.
+ * Removals are recorded as tombstones next to the items, and expire
+ * after `tombstoneTtlMs`.
+ */
+
+import {
+  DEFAULT_ERROR_MESSAGES,
+  METAFIELD_KEY,
+  METAFIELD_NAMESPACE,
+} from '../utils/constants.js';
+import {
+  decodeWishlistTombstones,
+  encodeWishlistMetafields,
+  getWishlistShardCount,
+  WISHLIST_SHARD_KEYS,
+  WISHLIST_SHARDS_SELECTION,
+} from '../utils/encoding.js';
+import { WishBridgeError, isWishBridgeError } from '../utils/errors.js';
+import {
+  applyOperations,
+  mergeTombstones,
+  mergeWishlistsWithReport,
+  pruneTombstones,
+  recordTombstones,
+} from '../utils/merge.js';
+import { parseWishlistMetafield } from '../utils/storefront.js';
+import {
+  isValidMergeStrategy,
+  isValidWishlistTombstone,
+  parseUpdateOperations,
+} from '../utils/validation.js';
+import { json, readJsonBody, resolveEndpoint } from './http.js';
+
+import type { CustomerAccountClient } from './customerAccount.js';
+import type { WishlistShardMetafield } from '../utils/encoding.js';
+import type { WishlistItem, WishlistTombstone } from '../types.js';
+
+const CUSTOMER_WISHLIST_METAFIELD_QUERY = `#graphql
+  query WishBridgeCustomerWishlistMetafield {
+    customer {
+      id
+      metafield(namespace: "${METAFIELD_NAMESPACE}", key: "${METAFIELD_KEY}") {
+        value
+      }
+      ${WISHLIST_SHARDS_SELECTION}
+    }
+  }
+`;
+
+const SET_WISHLIST_METAFIELD_MUTATION = `#graphql
+  mutation WishBridgeSetWishlistMetafield($metafields: [MetafieldsSetInput!]!) {
+    metafieldsSet(metafields: $metafields) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+interface CustomerWishlistMetafieldData {
+  customer?: {
+    id: string;
+    metafield?: { value: string } | null;
+    shards?: WishlistShardMetafield[] | null;
+  } | null;
+}
+
+interface SetWishlistMetafieldData {
+  metafieldsSet?: {
+    userErrors: Array<{ field?: string[] | null; message: string }>;
+  } | null;
+}
+
+/**
+ * Logged-in customer's wishlist metafield
+ */
+export interface CustomerWishlistMetafield {
+  customerId: string;
+  items: WishlistItem[];
+  /**
+   * Tombstones for removed items
+   */
+  removed: WishlistTombstone[];
+  /**
+   * Number of metafields the stored list spans
+   */
+  shards: number;
+}
+
+/**
+ * Read the logged-in customer's wishlist metafield.
+ * Returns null when there is no customer on the session.
+ * Rejects with a `WishBridgeError` when the query fails.
+ */
+export async function readCustomerWishlistMetafield(
+  customerAccount: Pick<CustomerAccountClient, 'query'>,
+): Promise<CustomerWishlistMetafield | null> {
+  let result: { data?: CustomerWishlistMetafieldData | null; errors?: unknown };
+  try {
+    result = await customerAccount.query<CustomerWishlistMetafieldData>(
+      CUSTOMER_WISHLIST_METAFIELD_QUERY,
+    );
+  } catch {
+    throw new WishBridgeError('network', DEFAULT_ERROR_MESSAGES.network);
+  }
+
+  if (result.errors) {
+    throw new WishBridgeError('request_failed', DEFAULT_ERROR_MESSAGES.unknown);
+  }
+
+  const customer = result.data?.customer;
+  if (!customer) {
+    return null;
+  }
+
+  return {
+    customerId: customer.id,
+    items: parseWishlistMetafield(customer.metafield?.value, customer.shards),
+    removed: decodeWishlistTombstones(customer.metafield?.value),
+    shards: getWishlistShardCount(customer.metafield?.value),
+  };
+}
+
+/**
+ * Replace the customer's wishlist metafield using `metafieldsSet`.
+ * Large lists are split across shard metafields; pass the previous
+ * shard count so shards that are no longer used get emptied.
+ * Rejects with a `WishBridgeError` when the mutation fails.
+ */
+export async function writeCustomerWishlistMetafield(
+  customerAccount: Pick<CustomerAccountClient, 'mutate'>,
+  customerId: string,
+  items: WishlistItem[],
+  previousShards = 1,
+  removed: WishlistTombstone[] = [],
+): Promise<void> {
+  const entries = encodeWishlistMetafields(items, undefined, removed);
+  const staleKeys = WISHLIST_SHARD_KEYS.slice(entries.length - 1, previousShards - 1);
+
+  let result: { data?: SetWishlistMetafieldData | null; errors?: unknown };
+  try {
+    result = await customerAccount.mutate<SetWishlistMetafieldData>(
+      SET_WISHLIST_METAFIELD_MUTATION,
+      {
+        variables: {
+          metafields: [
+            ...entries,
+            ...staleKeys.map((key) => ({ key, value: '[]' })),
+          ].map(({ key, value }) => ({
+            ownerId: customerId,
+            namespace: METAFIELD_NAMESPACE,
+            key,
+            type: 'json',
+            value,
+          })),
+        },
+      },
+    );
+  } catch {
+    throw new WishBridgeError('network', DEFAULT_ERROR_MESSAGES.network);
+  }
+
+  const userError = result.data?.metafieldsSet?.userErrors[0];
+  if (result.errors || !result.data?.metafieldsSet || userError) {
+    throw new WishBridgeError(
+      'request_failed',
+      userError?.message ?? DEFAULT_ERROR_MESSAGES.unknown,
+    );
+  }
+}
+
+export interface WishlistMetafieldRouteOptions {
+  /**
+   * Hydrogen's `context.customerAccount`
+   */
+  customerAccount: CustomerAccountClient;
+
+  /**
+   * Endpoint to handle. Defaults to the last segment of the request path,
+   * so a splat route like `api.wishlist.$.ts` works without passing it.
+   */
+  endpoint?: string;
+
+  /**
+   * How long removal tombstones are kept, in milliseconds
+   * @default TOMBSTONE_TTL_MS (30 days)
+   */
+  tombstoneTtlMs?: number;
+}
+
+/**
+ * Serve the provider's wishlist calls from a Hydrogen resource route,
+ * storing items in the customer's metafield instead of WishBridge.
+ *
+ * Pair with `storage: 'customer-account'` and `proxyUrl` on the provider
+ * config. Sync and update behave like the WishBridge endpoints; events are
+ * accepted and dropped, and share links are not supported.
+ *
+ * @example
+ * ```ts
+ * // app/routes/api.wishlist.$.ts
+ * import { handleWishlistMetafieldRequest } from '@tempered/hydrogen-wishlist';
+ *
+ * export async function action({ request, params, context }: ActionFunctionArgs) {
+ *   return handleWishlistMetafieldRequest(request, {
+ *     customerAccount: context.customerAccount,
+ *     endpoint: params['*'],
+ *   });
+ * }
+ * ```
+ */
+export async function handleWishlistMetafieldRequest(
+  request: Request,
+  options: WishlistMetafieldRouteOptions,
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  const endpoint = resolveEndpoint(request, options.endpoint);
+
+  if (!endpoint) {
+    return json({ success: false, error: 'Not found' }, 404);
+  }
+
+  // No analytics backend to record events in
+  if (endpoint === 'event') {
+    return json({ success: true });
+  }
+
+  if (endpoint === 'share') {
+    return json({ success: false, error: DEFAULT_ERROR_MESSAGES.shareUnavailable }, 501);
+  }
+
+  const body = await readJsonBody(request);
+  if (!body) {
+    return json({ success: false, error: 'Invalid JSON' }, 400);
+  }
+
+  const { customerAccount } = options;
+
+  try {
+    if (!(await customerAccount.isLoggedIn())) {
+      return json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const current = await readCustomerWishlistMetafield(customerAccount);
+    if (!current) {
+      return json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const removed = pruneTombstones(current.removed, options.tombstoneTtlMs);
+
+    if (endpoint === 'sync') {
+      const { guestItems, guestRemoved, mergeStrategy, replace } = body;
+      if (!Array.isArray(guestItems)) {
+        return json({ success: false, error: 'guestItems must be an array' }, 400);
+      }
+
+      const validGuestRemoved = Array.isArray(guestRemoved)
+        ? pruneTombstones(
+            guestRemoved.filter(isValidWishlistTombstone) as WishlistTombstone[],
+            options.tombstoneTtlMs,
+          )
+        : [];
+      const tombstones = mergeTombstones(removed, validGuestRemoved);
+      const { items, report } = mergeWishlistsWithReport(guestItems, current.items, {
+        tombstones,
+        strategy: isValidMergeStrategy(mergeStrategy) ? mergeStrategy : 'union',
+        replace: replace === true,
+      });
+
+      // Nothing valid to merge
+      if (
+        report.rejected.length === guestItems.length &&
+        validGuestRemoved.length === 0 &&
+        replace !== true
+      ) {
+        return json({ success: true, items: current.items, report });
+      }
+
+      await writeCustomerWishlistMetafield(
+        customerAccount,
+        current.customerId,
+        items,
+        current.shards,
+        tombstones,
+      );
+      return json({ success: true, items, report });
+    }
+
+    const operations = parseUpdateOperations(body);
+    if (!operations) {
+      return json({ success: false, error: 'Invalid operation' }, 400);
+    }
+
+    const items = applyOperations(current.items, operations);
+    await writeCustomerWishlistMetafield(
+      customerAccount,
+      current.customerId,
+      items,
+      current.shards,
+      recordTombstones(removed, operations),
+    );
+    return json({ success: true, items });
+  } catch (err) {
+    if (!isWishBridgeError(err)) throw err;
+
+    // Only transport failures are worth retrying from the browser
+    return json({ success: false, error: err.message }, err.code === 'network' ? 502 : 422);
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Server-side WishBridge proxy
+ *
+ * Forwards sync, update, event and share calls from the browser to
+ * WishBridge, so the API key stays on the server and the customer ID
+ * comes from the session instead of the request body.
+ */
+
+import {
+  API_ENDPOINTS,
+  DEFAULT_API_URL,
+  DEFAULT_ERROR_MESSAGES,
+} from '../utils/constants.js';
+import { json, readJsonBody, resolveEndpoint } from './http.js';
+
+export interface WishlistProxyOptions {
+  /**
+   * Secret WishBridge API key
+   */
+  apiKey: string;
+
+  /**
+   * Shop domain
+   * @example "my-store.myshopify.com"
+   */
+  shopDomain: string;
+
+  /**
+   * Logged-in customer GID, verified from the session.
+   * Null/undefined for guests.
+   */
+  customerId: string | null | undefined;
+
+  /**
+   * Endpoint to forward to. Defaults to the last segment of the request path,
+   * so a splat route like `api.wishlist.$.ts` works without passing it.
+   */
+  endpoint?: string;
+
+  /**
+   * WishBridge backend URL
+   * @default DEFAULT_API_URL
+   */
+  apiUrl?: string;
+
+  /**
+   * Fetch implementation for the upstream call
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Forward a wishlist request to WishBridge from a Hydrogen resource route.
+ *
+ * Pair with `proxyUrl` on the provider config.
+ *
+ * @example
+ * ```ts
+ * // app/routes/api.wishlist.$.ts
+ * import {
+ *   getCustomerIdFromSession,
+ *   proxyWishlistRequest,
+ * } from '@tempered/hydrogen-wishlist';
+ *
+ * export async function action({ request, params, context }: ActionFunctionArgs) {
+ *   return proxyWishlistRequest(request, {
+ *     apiKey: context.env.WISHBRIDGE_API_KEY,
+ *     shopDomain: context.env.PUBLIC_STORE_DOMAIN,
+ *     customerId: await getCustomerIdFromSession(context.customerAccount),
+ *     endpoint: params['*'],
+ *   });
+ * }
+ * ```
+ */
+export async function proxyWishlistRequest(
+  request: Request,
+  options: WishlistProxyOptions,
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  const endpoint = resolveEndpoint(request, options.endpoint);
+
+  if (!endpoint) {
+    return json({ success: false, error: 'Not found' }, 404);
+  }
+
+  // Only analytics events are accepted from guests
+  if (!options.customerId && endpoint !== 'event') {
+    return json({ success: false, error: 'Unauthorized' }, 401);
+  }
+
+  const body = await readJsonBody(request);
+  if (!body) {
+    return json({ success: false, error: 'Invalid JSON' }, 400);
+  }
+
+  const fetchFn = options.fetch ?? globalThis.fetch;
+
+  let upstream: Response;
+  try {
+    upstream = await fetchFn(`${options.apiUrl ?? DEFAULT_API_URL}${API_ENDPOINTS[endpoint]}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${options.apiKey}`,
+      },
+      // Never trust the customer or shop sent by the browser
+      body: JSON.stringify({
+        ...body,
+        customerId: options.customerId ?? undefined,
+        shop: options.shopDomain,
+      }),
+    });
+  } catch {
+    return json({ success: false, error: DEFAULT_ERROR_MESSAGES.network }, 502);
+  }
+
+  const headers = new Headers({
+    'Content-Type': upstream.headers.get('Content-Type') ?? 'application/json',
+  });
+  const retryAfter = upstream.headers.get('Retry-After');
+  if (retryAfter) {
+    headers.set('Retry-After', retryAfter);
+  }
+
+  return new Response(await upstream.text(), {
+    status: upstream.status,
+    headers,
+  });
+}
@@ -22,6 +22,142 @@ export interface WishlistItem {
   addedAt: string; // ISO timestamp
 }
 
+/**
+ * Versioned wrapper for stored wishlists, in localStorage and metafields
+ */
+export interface WishlistEnvelope {
+  version: number;
+  items: WishlistItem[];
+  /**
+   * ISO timestamp of the last write
+   */
+  updatedAt: string;
+
+  /**
+   * Recently removed items, so merges don't bring them back
+   */
+  removed?: WishlistTombstone[];
+}
+
+/**
+ * Record of a removed item. Copies of the item added before `removedAt`
+ * are dropped when lists are merged.
+ */
+export interface WishlistTombstone extends WishlistItemRef {
+  removedAt: string; // ISO timestamp
+}
+
+/**
+ * Compact metafield encoding of a wishlist item.
+ * Image, handle and variant title are dropped and rehydrated from
+ * live product data.
+ */
+export interface CompactWishlistItem {
+  /**
+   * Product ID, without the `gid://shopify/Product/` prefix when numeric
+   */
+  p: string;
+  /**
+   * Variant ID, without the `gid://shopify/ProductVariant/` prefix when numeric
+   */
+  v?: string;
+  /**
+   * Product title
+   */
+  t: string;
+  /**
+   * ISO timestamp the item was added
+   */
+  a: string;
+  /**
+   * Saved price as `[amount, currencyCode]`, kept for price-change detection
+   */
+  $?: [string, string];
+}
+
+/**
+ * Current product data from the Storefront API
+ */
+export interface LiveProductData {
+  productTitle: string;
+  productHandle: string;
+  variantTitle?: string | null;
+  image?: {
+    url: string;
+    altText?: string;
+  };
+  price?: {
+    amount: string;
+    currencyCode: string;
+  };
+  availableForSale: boolean;
+  /**
+   * Units in stock for variants, when `trackInventory` is enabled
+   */
+  quantityAvailable?: number;
+}
+
+/**
+ * Wishlist item with live product data overlaid on the saved snapshot
+ */
+export interface HydratedWishlistItem extends WishlistItem {
+  /**
+   * Whether the product (or variant) can currently be purchased.
+   * Undefined until live data has loaded.
+   */
+  availableForSale?: boolean;
+
+  /**
+   * Units in stock for variants, when `trackInventory` is enabled
+   */
+  quantityAvailable?: number;
+
+  /**
+   * The product or variant no longer exists in the store
+   */
+  isDeleted?: boolean;
+}
+
+/**
+ * Difference between a saved item's price and its current price
+ */
+export interface PriceChange {
+  productId: string;
+  variantId?: string;
+  savedPrice: {
+    amount: string;
+    currencyCode: string;
+  };
+  currentPrice: {
+    amount: string;
+    currencyCode: string;
+  };
+  /**
+   * Current minus saved amount; negative when the price dropped
+   */
+  amountChange: number;
+  /**
+   * Change relative to the saved price, in percent; negative when the price dropped
+   */
+  percentChange: number;
+}
+
+/**
+ * Sort orders for wishlist item lists
+ */
+export type SortOption =
+  | 'newest'
+  | 'oldest'
+  | 'title'
+  | 'price-low'
+  | 'price-high'
+  | 'price-drop';
+
+/**
+ * Minimal reference identifying a wishlist item
+ */
+export type WishlistItemRef = Pick<WishlistItem, 'productId' | 'variantId'>;
+
 /**
  * Product info for adding to wishlist
  */
@@ -41,21 +177,268 @@ export interface ProductInfo {
   };
 }
 
+/**
+ * Retry policy for WishBridge requests.
+ * Applies to network failures, timeouts, 429 and 5xx responses.
+ */
+export interface RetryPolicy {
+  /**
+   * Total attempts, including the first request
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Backoff curve between attempts
+   * @default "exponential"
+   */
+  backoff?: 'exponential' | 'linear' | 'constant';
+
+  /**
+   * Delay before the first retry in milliseconds
+   * @default 500
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for a single delay in milliseconds.
+   * A Retry-After longer than this ends retrying.
+   * @default 10000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Randomization applied to each delay
+   * @default "full"
+   */
+  jitter?: 'none' | 'full' | 'equal';
+}
+
+/**
+ * WishBridge backend endpoint
+ */
+export type WishBridgeEndpoint = 'sync' | 'update' | 'event' | 'share';
+
+/**
+ * Outgoing WishBridge request, as seen by interceptors
+ */
+export interface WishBridgeRequest {
+  endpoint: WishBridgeEndpoint;
+  url: string;
+  init: Omit<RequestInit, 'headers'> & { headers: Record<string, string> };
+}
+
+/**
+ * Transform a request before it is sent (headers, URL rewrites, logging)
+ */
+export type RequestInterceptor = (
+  request: WishBridgeRequest,
+) => WishBridgeRequest | Promise<WishBridgeRequest>;
+
+/**
+ * Inspect or replace a response before it is parsed (logging, auth refresh)
+ */
+export type ResponseInterceptor = (
+  response: Response,
+  request: WishBridgeRequest,
+) => Response | Promise<Response>;
+
+/**
+ * Request/response interceptors, run in array order
+ */
+export interface WishBridgeInterceptors {
+  request?: RequestInterceptor[];
+  response?: ResponseInterceptor[];
+}
+
+/**
+ * State of an in-progress retry
+ */
+export interface RetryState {
+  /**
+   * Endpoint being retried
+   */
+  endpoint: WishBridgeEndpoint;
+
+  /**
+   * 1-based number of the attempt that just failed
+   */
+  attempt: number;
+
+  /**
+   * Total attempts allowed by the policy
+   */
+  maxAttempts: number;
+
+  /**
+   * Delay before the next attempt in milliseconds
+   */
+  delayMs: number;
+
+  /**
+   * Error message of the failed attempt
+   */
+  error: string;
+}
+
+/**
+ * What guest storage does when the list is full
+ * - `'reject'`: refuse to save, with a `wishlist_full` error
+ * - `'oldest'`: evict the oldest items
+ * - `'images'`: drop saved images first, then evict the oldest items.
+ *   Images come back from live product data.
+ */
+export type GuestEvictionStrategy = 'reject' | 'oldest' | 'images';
+
+/**
+ * Size and age limits for the guest wishlist
+ */
+export interface GuestWishlistLimits {
+  /**
+   * Most items a guest can save
+   */
+  maxItems?: number;
+
+  /**
+   * Drop items added longer ago than this, in milliseconds
+   */
+  itemTtlMs?: number;
+
+  /**
+   * What to do when `maxItems` is reached or storage runs out of space
+   * @default 'reject'
+   */
+  eviction?: GuestEvictionStrategy;
+
+  /**
+   * How long removal tombstones are kept, in milliseconds
+   * @default TOMBSTONE_TTL_MS (30 days)
+   */
+  tombstoneTtlMs?: number;
+}
+
+/**
+ * Built-in ways to combine a guest list with a customer list:
+ * - `'union'`: keep items from both, with the earliest `addedAt` for duplicates
+ * - `'server-wins'`: keep the customer list and discard the guest list
+ * - `'guest-wins'`: replace the customer list with the guest list
+ * - `'latest-wins'`: keep items from both, using the most recently added copy of duplicates
+ */
+export type WishlistMergeStrategy = 'union' | 'server-wins' | 'guest-wins' | 'latest-wins';
+
+/**
+ * Custom merge, e.g. to ask the user which list to keep. Receives both
+ * lists with removed items already left out and returns the list to save.
+ */
+export type WishlistMergeResolver = (
+  guestItems: WishlistItem[],
+  customerItems: WishlistItem[],
+) => WishlistItem[] | Promise<WishlistItem[]>;
+
+/**
+ * Guest item whose saved title or price differs from the account's copy
+ */
+export interface WishlistMergeConflict {
+  guest: WishlistItem;
+  customer: WishlistItem;
+  /**
+   * Copy that was kept
+   */
+  resolved: WishlistItem;
+}
+
+/**
+ * Outcome of merging a guest list into a customer list
+ */
+export interface WishlistMergeReport {
+  /**
+   * Guest items that weren't in the account and were added
+   */
+  added: WishlistItem[];
+
+  /**
+   * Guest items the account already had
+   */
+  duplicates: WishlistItem[];
+
+  /**
+   * Guest items the account already had with a different title or price
+   */
+  conflicts: WishlistMergeConflict[];
+
+  /**
+   * Guest items left out by a removal or the merge strategy
+   */
+  discarded: WishlistItem[];
+
+  /**
+   * Guest entries that failed validation
+   */
+  rejected: unknown[];
+}
+
+/**
+ * Customer wishlist storage mode
+ */
+export type WishlistStorage = 'wishbridge' | 'customer-account';
+
+/**
+ * Key-value store backing the guest wishlist.
+ * Methods may return values directly or as promises.
+ */
+export interface WishlistStorageAdapter {
+  /**
+   * Read a value, or null when the key isn't set
+   */
+  getItem: (key: string) => string | null | Promise<string | null>;
+
+  /**
+   * Write a value
+   */
+  setItem: (key: string, value: string) => void | Promise<void>;
+
+  /**
+   * Delete a value
+   */
+  removeItem: (key: string) => void | Promise<void>;
+}
+
 /**
  * WishBridge API client configuration
  */
 export interface WishBridgeConfig {
   /**
-   * API base URL for the WishBridge backend
+   * API base URL for the WishBridge backend.
+   * Not used when `proxyUrl` is set.
    * @example "https://wishbridge.temperedtools.xyz"
    */
-  apiUrl: string;
+  apiUrl?: string;
 
   /**
-   * API key for authentication
+   * API key for authentication.
+   * Sent from the browser; prefer `proxyUrl` in production.
    */
   apiKey?: string;
 
+  /**
+   * Same-origin route that forwards WishBridge calls server-side
+   * (see `proxyWishlistRequest`). When set, calls go to
+   * `${proxyUrl}/sync`, `/update`, `/event` and `/share`, and no API key
+   * is needed in the browser.
+   * @example "/api/wishlist"
+   */
+  proxyUrl?: string;
+
+  /**
+   * Where customer wishlists are stored.
+   * - `'wishbridge'`: the hosted WishBridge backend
+   * - `'customer-account'`: the `wishbridge.items` metafield, written by your
+   *   own Hydrogen action (see `handleWishlistMetafieldRequest`). Requires
+   *   `proxyUrl`; analytics events are skipped and share links are unavailable.
+   * @default 'wishbridge'
+   */
+  storage?: WishlistStorage;
+
   /**
    * Shop domain
    * @example "my-store.myshopify.com"
@@ -75,16 +458,120 @@ export interface WishBridgeConfig {
   customerAccessToken?: string;
 
   /**
-   * Enable wishlist for guest users (localStorage)
+   * Public Storefront API access token, used with `customerAccessToken`
+   * to read the wishlist metafield on login
+   */
+  storefrontAccessToken?: string;
+
+  /**
+   * Storefront API version
+   * @default DEFAULT_STOREFRONT_API_VERSION
+   */
+  storefrontApiVersion?: string;
+
+  /**
+   * Buyer country for live product prices, as a Storefront API `CountryCode`
+   * @example "CA"
+   */
+  country?: string;
+
+  /**
+   * Buyer language for live product data, as a Storefront API `LanguageCode`
+   * @example "FR"
+   */
+  language?: string;
+
+  /**
+   * Overlay current title, handle, image, price and availability from the
+   * Storefront API onto saved items. Requires `storefrontAccessToken`.
+   * @default true
+   */
+  hydrateProducts?: boolean;
+
+  /**
+   * Also fetch `quantityAvailable` for variants. Requires the
+   * `unauthenticated_read_product_inventory` Storefront API scope.
+   * @default false
+   */
+  trackInventory?: boolean;
+
+  /**
+   * Enable wishlist for guest users
    * @default true
    */
   enableGuestWishlist?: boolean;
 
+  /**
+   * Where the guest wishlist is kept. See `createLocalStorageAdapter`,
+   * `createSessionStorageAdapter`, `createIndexedDBAdapter` and
+   * `createMemoryStorageAdapter`.
+   * @default localStorage
+   */
+  guestStorage?: WishlistStorageAdapter;
+
+  /**
+   * Extra scope for guest storage keys within the shop, such as a market
+   * handle, for storefronts that share an origin. Keys are always scoped
+   * by `shopDomain`.
+   * @example "en-ca"
+   */
+  storageNamespace?: string;
+
+  /**
+   * Size cap, expiry and eviction for the guest wishlist
+   */
+  guestLimits?: GuestWishlistLimits;
+
+  /**
+   * Keep the wishlist in sync across open tabs of the store
+   * @default true
+   */
+  syncTabs?: boolean;
+
   /**
    * Automatically merge guest wishlist on customer login
    * @default true
    */
   enableAutoMerge?: boolean;
+
+  /**
+   * Wait for the shopper to confirm before merging guest items on login,
+   * e.g. with `WishlistMergePrompt`. Guest items stay in guest storage
+   * until they're merged or discarded.
+   * @default false
+   */
+  confirmMerge?: boolean;
+
+  /**
+   * How guest items are combined with the customer's list on login
+   * @default 'union'
+   */
+  mergeStrategy?: WishlistMergeStrategy | WishlistMergeResolver;
+
+  /**
+   * Window in milliseconds for coalescing customer add/remove calls
+   * into a single batched update request
+   * @default 50
+   */
+  batchWindowMs?: number;
+
+  /**
+   * Retry policy for rate-limited and transient failures.
+   * Set to `false` to disable retries.
+   */
+  retry?: RetryPolicy | false;
+
+  /**
+   * Fetch implementation used for every WishBridge call.
+   * Useful for tracing, edge proxies and stubbing the network in tests.
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Interceptors applied to every WishBridge request and response
+   */
+  interceptors?: WishBridgeInterceptors;
 }
 
 /**
@@ -97,11 +584,45 @@ export interface WishlistState {
   error?: string;
 }
 
+/**
+ * Net changes to a wishlist since a sync watermark. Each changed item is
+ * listed once: in `added` with its current data, or in `removed` if it is
+ * no longer saved.
+ */
+export interface WishlistDelta {
+  added: WishlistItem[];
+  removed: WishlistItemRef[];
+}
+
 /**
  * Sync wishlist request
  */
 export interface SyncWishlistRequest {
   guestItems: WishlistItem[];
+
+  /**
+   * Items the guest removed. Matching customer items added before the
+   * removal are dropped from the merge.
+   */
+  guestRemoved?: WishlistTombstone[];
+
+  /**
+   * How to combine `guestItems` with the customer's list
+   * @default 'union'
+   */
+  mergeStrategy?: WishlistMergeStrategy;
+
+  /**
+   * Save `guestItems` as the customer's list, even when empty, instead
+   * of merging. Sent with the result of a custom merge resolver.
+   */
+  replace?: boolean;
+
+  /**
+   * `syncedAt` from the previous sync. When set, the backend may answer
+   * with `changes` since then instead of the full `items`.
+   */
+  since?: string;
 }
 
 /**
@@ -110,16 +631,59 @@ export interface SyncWishlistRequest {
 export interface SyncWishlistResponse {
   success: boolean;
   items?: WishlistItem[];
+
+  /**
+   * Changes since the request's `since`, including merged guest items.
+   * Sent instead of `items`.
+   */
+  changes?: WishlistDelta;
+
+  /**
+   * Watermark to send as `since` on the next sync
+   */
+  syncedAt?: string;
+
+  /**
+   * What happened to each guest item
+   */
+  report?: WishlistMergeReport;
   message?: string;
   error?: string;
 }
 
 /**
- * Update wishlist request (add/remove single item)
+ * Single add/remove operation on a wishlist
  */
-export interface UpdateWishlistRequest {
+export interface WishlistOperation {
   action: 'add' | 'remove';
-  item: WishlistItem;
+  item: WishlistItem | WishlistItemRef;
+}
+
+/**
+ * Batched update request. Operations are applied in order.
+ */
+export interface BatchUpdateWishlistRequest {
+  operations: WishlistOperation[];
+}
+
+/**
+ * Update wishlist request (single operation or ordered batch)
+ */
+export type UpdateWishlistRequest = WishlistOperation | BatchUpdateWishlistRequest;
+
+/**
+ * Customer wishlist update waiting to be sent to the backend
+ */
+export interface PendingOperation extends WishlistOperation {
+  /**
+   * Customer the operation belongs to
+   */
+  customerId: string;
+
+  /**
+   * ISO timestamp of when the operation was queued
+   */
+  queuedAt: string;
 }
 
 /**
@@ -127,6 +691,9 @@ export interface UpdateWishlistRequest {
  */
 export interface UpdateWishlistResponse {
   success: boolean;
+  /**
+   * Wishlist items after all operations were applied
+   */
   items?: WishlistItem[];
   message?: string;
   error?: string;
@@ -0,0 +1,313 @@
+/**
+ * Storage adapters for the guest wishlist
+ *
+ * Each adapter is a small key-value store. Pick one with
+ * `config.guestStorage`; the provider defaults to localStorage.
+ */
+
+import {
+  GUEST_COOKIE_MAX_AGE,
+  GUEST_COOKIE_NAME,
+  INDEXED_DB_NAME,
+  INDEXED_DB_STORE,
+  STORAGE_KEYS,
+} from './constants.js';
+import { decodeWishlistCookie, encodeWishlistCookie, readCookie } from './cookie.js';
+import { createWishlistEnvelope, parseWishlistPayload } from './schema.js';
+
+import type { WishlistStorageAdapter } from '../types.js';
+
+type WebStorageType = 'localStorage' | 'sessionStorage';
+
+function getWebStorage(type: WebStorageType): Storage | undefined {
+  if (typeof window === 'undefined') {
+    return undefined;
+  }
+
+  try {
+    return window[type];
+  } catch {
+    // Accessing storage throws when cookies are blocked
+    return undefined;
+  }
+}
+
+function createWebStorageAdapter(type: WebStorageType): WishlistStorageAdapter {
+  return {
+    getItem: (key) => getWebStorage(type)?.getItem(key) ?? null,
+    setItem: (key, value) => {
+      getWebStorage(type)?.setItem(key, value);
+    },
+    removeItem: (key) => {
+      getWebStorage(type)?.removeItem(key);
+    },
+  };
+}
+
+/**
+ * Keep the guest wishlist in localStorage. Reads return null during
+ * server rendering.
+ */
+export function createLocalStorageAdapter(): WishlistStorageAdapter {
+  return createWebStorageAdapter('localStorage');
+}
+
+/**
+ * Keep the guest wishlist in sessionStorage, so it is dropped when the
+ * tab closes. Useful for shared devices.
+ */
+export function createSessionStorageAdapter(): WishlistStorageAdapter {
+  return createWebStorageAdapter('sessionStorage');
+}
+
+export interface IndexedDBAdapterOptions {
+  /**
+   * Database name
+   * @default INDEXED_DB_NAME
+   */
+  databaseName?: string;
+
+  /**
+   * Object store name
+   * @default INDEXED_DB_STORE
+   */
+  storeName?: string;
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Keep the guest wishlist in IndexedDB. Holds larger lists than Web
+ * Storage and works in webviews that disable it. The database is opened
+ * on first use.
+ */
+export function createIndexedDBAdapter(
+  options: IndexedDBAdapterOptions = {},
+): WishlistStorageAdapter {
+  const { databaseName = INDEXED_DB_NAME, storeName = INDEXED_DB_STORE } = options;
+  let database: Promise<IDBDatabase> | undefined;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      database = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Try again on the next call instead of caching the failure
+      database.catch(() => {
+        database = undefined;
+      });
+    }
+    return database;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const db = await open();
+    return settle(operation(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    getItem: async (key) => {
+      const value = await run('readonly', (store) => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: async (key, value) => {
+      await run('readwrite', (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await run('readwrite', (store) => store.delete(key));
+    },
+  };
+}
+
+/**
+ * Keep the guest wishlist in memory. Nothing survives a reload; useful
+ * for kiosks, tests and environments without persistent storage.
+ */
+export function createMemoryStorageAdapter(
+  initial: Record<string, string> = {},
+): WishlistStorageAdapter {
+  const values = new Map(Object.entries(initial));
+
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: (key) => {
+      values.delete(key);
+    },
+  };
+}
+
+export interface CookieAdapterOptions {
+  /**
+   * Adapter holding the full items
+   * @default localStorage
+   */
+  storage?: WishlistStorageAdapter;
+
+  /**
+   * Cookie name. Lists scoped by `createScopedStorageAdapter` get their
+   * own cookie, named like `getScopedStorageKey(name, scope)`.
+   * @default GUEST_COOKIE_NAME
+   */
+  name?: string;
+
+  /**
+   * Largest cookie value; older items are left out of the cookie past this
+   * @default GUEST_COOKIE_MAX_BYTES
+   */
+  maxBytes?: number;
+
+  /**
+   * Cookie lifetime in seconds
+   * @default GUEST_COOKIE_MAX_AGE
+   */
+  maxAge?: number;
+
+  /**
+   * Cookie path
+   * @default '/'
+   */
+  path?: string;
+
+  /**
+   * Cookie domain, to share the list across subdomains
+   */
+  domain?: string;
+}
+
+/**
+ * Keep the guest wishlist in another adapter and mirror its product and
+ * variant keys into a cookie, so server loaders can read them with
+ * `getGuestWishlist`. When the wrapped adapter has nothing stored (for
+ * example after Safari clears it), items are restored from the cookie
+ * and their display data comes back from the Storefront API.
+ */
+export function createCookieStorageAdapter(
+  options: CookieAdapterOptions = {},
+): WishlistStorageAdapter {
+  const {
+    storage = createLocalStorageAdapter(),
+    name = GUEST_COOKIE_NAME,
+    maxBytes,
+    maxAge = GUEST_COOKIE_MAX_AGE,
+    path = '/',
+    domain,
+  } = options;
+
+  // Keys may be scoped by `createScopedStorageAdapter`
+  const isItemsKey = (key: string) =>
+    key === STORAGE_KEYS.wishlistItems || key.startsWith(`${STORAGE_KEYS.wishlistItems}:`);
+
+  // Give each scoped list its own cookie, so shops on one domain don't
+  // restore each other's items
+  const getCookieName = (key: string) =>
+    `${name}${key.slice(STORAGE_KEYS.wishlistItems.length)}`;
+
+  const writeCookie = (key: string, value: string, age: number) => {
+    if (typeof document === 'undefined') return;
+
+    const secure = typeof location !== 'undefined' && location.protocol === 'https:';
+    document.cookie = [
+      `${getCookieName(key)}=${encodeURIComponent(value)}`,
+      `Path=${path}`,
+      `Max-Age=${age}`,
+      'SameSite=Lax',
+      ...(domain ? [`Domain=${domain}`] : []),
+      ...(secure ? ['Secure'] : []),
+    ].join('; ');
+  };
+
+  return {
+    getItem: async (key) => {
+      const value = await storage.getItem(key);
+      if (value !== null || !isItemsKey(key) || typeof document === 'undefined') {
+        return value;
+      }
+
+      const items = decodeWishlistCookie(readCookie(document.cookie, getCookieName(key)));
+      return items.length > 0 ? JSON.stringify(createWishlistEnvelope(items)) : null;
+    },
+    setItem: async (key, value) => {
+      // Write the cookie first so it survives the wrapped adapter failing
+      if (isItemsKey(key)) {
+        writeCookie(key, encodeWishlistCookie(parseWishlistPayload(value), maxBytes), maxAge);
+      }
+      await storage.setItem(key, value);
+    },
+    removeItem: async (key) => {
+      if (isItemsKey(key)) {
+        writeCookie(key, '', 0);
+      }
+      await storage.removeItem(key);
+    },
+  };
+}
+
+export interface StorageScope {
+  /**
+   * Shop the list belongs to
+   */
+  shopDomain: string;
+
+  /**
+   * Extra scope within the shop, such as a market
+   */
+  namespace?: string;
+}
+
+/**
+ * Storage key for a shop and optional namespace,
+ * e.g. `wishbridge_items:my-store.myshopify.com:en-ca`
+ */
+export function getScopedStorageKey(key: string, scope: StorageScope): string {
+  return [key, scope.shopDomain, ...(scope.namespace ? [scope.namespace] : [])].join(':');
+}
+
+/**
+ * Scope every key of an adapter to a shop and namespace, so storefronts
+ * sharing an origin keep separate guest lists. Values saved under the
+ * old unscoped keys are moved to the scoped key the first time they're read.
+ */
+export function createScopedStorageAdapter(
+  storage: WishlistStorageAdapter,
+  scope: StorageScope,
+): WishlistStorageAdapter {
+  return {
+    getItem: async (key) => {
+      const scopedKey = getScopedStorageKey(key, scope);
+      const value = await storage.getItem(scopedKey);
+      if (value !== null) {
+        return value;
+      }
+
+      const legacy = await storage.getItem(key);
+      if (legacy !== null) {
+        await storage.setItem(scopedKey, legacy);
+        await storage.removeItem(key);
+      }
+      return legacy;
+    },
+    setItem: (key, value) => storage.setItem(getScopedStorageKey(key, scope), value),
+    removeItem: (key) => storage.removeItem(getScopedStorageKey(key, scope)),
+  };
+}
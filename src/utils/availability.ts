@@ -0,0 +1,89 @@
+/**
+ * Availability tracking for wishlist items
+ *
+ * Remembers whether each item was purchasable the last time live data was
+ * loaded, so items that come back in stock can be announced across visits.
+ */
+
+import { STORAGE_KEYS } from './constants.js';
+import { runExclusive } from './storage.js';
+
+import type { LiveProductMap } from './products.js';
+import type { HydratedWishlistItem, WishlistStorageAdapter } from '../types.js';
+
+/**
+ * Whether an item can be added to the cart.
+ * Items without live data are assumed purchasable.
+ */
+export function isPurchasable(item: HydratedWishlistItem): boolean {
+  return !item.isDeleted && item.availableForSale !== false;
+}
+
+async function readAvailability(
+  adapter: WishlistStorageAdapter,
+): Promise<Record<string, boolean>> {
+  try {
+    const stored = await adapter.getItem(STORAGE_KEYS.availability);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+async function writeAvailability(
+  adapter: WishlistStorageAdapter,
+  availability: Record<string, boolean>,
+): Promise<void> {
+  try {
+    await adapter.setItem(STORAGE_KEYS.availability, JSON.stringify(availability));
+  } catch {
+    console.warn('WishBridge: Failed to save availability');
+  }
+}
+
+/**
+ * Record the latest availability for Storefront IDs.
+ * Resolves with the IDs that were unavailable last time and are
+ * purchasable now. With `wishlistIds`, entries for other IDs are dropped,
+ * so removed items don't pile up.
+ */
+export function recordAvailability(
+  liveProducts: LiveProductMap,
+  adapter: WishlistStorageAdapter,
+  wishlistIds?: string[],
+): Promise<string[]> {
+  return runExclusive(adapter, async () => {
+    const availability = await readAvailability(adapter);
+    const backInStock: string[] = [];
+    let changed = false;
+
+    if (wishlistIds) {
+      const kept = new Set(wishlistIds);
+      for (const id of Object.keys(availability)) {
+        if (!kept.has(id)) {
+          delete availability[id];
+          changed = true;
+        }
+      }
+    }
+
+    for (const [id, live] of Object.entries(liveProducts)) {
+      const available = live?.availableForSale ?? false;
+
+      if (availability[id] === false && available) {
+        backInStock.push(id);
+      }
+      if (availability[id] !== available) {
+        availability[id] = available;
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await writeAvailability(adapter, availability);
+    }
+
+    return backInStock;
+  });
+}
@@ -0,0 +1,107 @@
+/**
+ * Update batching for customer wishlists
+ *
+ * Coalesces add/remove calls made within a short window into a single
+ * update request, and sends batches one at a time so they reach the
+ * backend in order.
+ */
+
+import { createItemKey } from './merge.js';
+
+import type { UpdateWishlistResponse, WishlistOperation } from '../types.js';
+
+/**
+ * Sends a batch of operations to the backend
+ */
+export type SendBatch = (operations: WishlistOperation[]) => Promise<UpdateWishlistResponse>;
+
+export interface UpdateBatcher {
+  /**
+   * Queue an operation. Resolves with the response of the batch it was sent in.
+   */
+  enqueue: (operation: WishlistOperation) => Promise<UpdateWishlistResponse>;
+
+  /**
+   * Send queued operations now instead of waiting for the window to close
+   */
+  flush: () => Promise<void>;
+
+  /**
+   * Number of operations that have not settled yet
+   */
+  readonly pending: number;
+}
+
+interface QueuedOperation {
+  operation: WishlistOperation;
+  resolve: (response: UpdateWishlistResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Collapse operations on the same item to the latest one, keeping order
+ */
+export function collapseOperations(operations: WishlistOperation[]): WishlistOperation[] {
+  const latest = new Map<string, number>();
+  operations.forEach((op, index) => latest.set(createItemKey(op.item), index));
+  return operations.filter((op, index) => latest.get(createItemKey(op.item)) === index);
+}
+
+/**
+ * Create a batcher that debounces operations for `windowMs` before sending
+ */
+export function createUpdateBatcher(send: SendBatch, windowMs: number): UpdateBatcher {
+  let queue: QueuedOperation[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let inFlight: Promise<void> = Promise.resolve();
+  let pending = 0;
+
+  const sendQueued = (): Promise<void> => {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+
+    if (queue.length === 0) {
+      return inFlight;
+    }
+
+    const batch = queue;
+    queue = [];
+
+    // Wait for the previous batch so requests reach the backend in order
+    inFlight = inFlight.then(async () => {
+      try {
+        const response = await send(collapseOperations(batch.map((q) => q.operation)));
+        pending -= batch.length;
+        batch.forEach((q) => q.resolve(response));
+      } catch (err) {
+        pending -= batch.length;
+        batch.forEach((q) => q.reject(err));
+      }
+    });
+
+    return inFlight;
+  };
+
+  return {
+    enqueue(operation) {
+      pending += 1;
+
+      return new Promise<UpdateWishlistResponse>((resolve, reject) => {
+        queue.push({ operation, resolve, reject });
+
+        if (timer !== undefined) {
+          clearTimeout(timer);
+        }
+        timer = setTimeout(sendQueued, windowMs);
+      });
+    },
+
+    flush: sendQueued,
+
+    get pending() {
+      return pending;
+    },
+  };
+}
@@ -0,0 +1,374 @@
+/**
+ * WishBridge API client
+ *
+ * Typed wrapper around the WishBridge backend endpoints.
+ * Usable from the browser, Hydrogen loaders/actions and tests.
+ */
+
+import {
+  API_ENDPOINTS,
+  DEFAULT_API_URL,
+  DEFAULT_ERROR_MESSAGES,
+  REQUEST_TIMEOUT_MS,
+} from './constants.js';
+import { WishBridgeError } from './errors.js';
+import {
+  computeRetryDelay,
+  isRetryableError,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  sleep,
+} from './retry.js';
+
+import type { ResolvedRetryPolicy } from './retry.js';
+import type {
+  AnalyticsEventRequest,
+  AnalyticsEventResponse,
+  CreateShareLinkRequest,
+  CreateShareLinkResponse,
+  RetryState,
+  SyncWishlistRequest,
+  SyncWishlistResponse,
+  UpdateWishlistRequest,
+  UpdateWishlistResponse,
+  WishBridgeConfig,
+  WishBridgeEndpoint,
+  WishBridgeRequest,
+} from '../types.js';
+
+/**
+ * Per-call request options
+ */
+export interface WishBridgeRequestOptions {
+  /**
+   * Abort signal to cancel the request
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Override the request timeout in milliseconds
+   * @default REQUEST_TIMEOUT_MS
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Client-level options
+ */
+export interface WishBridgeClientOptions {
+  /**
+   * Called before each retry, and with `undefined` once a retried
+   * request settles
+   */
+  onRetryStateChange?: (state: RetryState | undefined) => void;
+}
+
+/**
+ * Client for the WishBridge backend.
+ *
+ * Every method resolves with the parsed response body on success and
+ * rejects with a `WishBridgeError` otherwise. Network failures, timeouts,
+ * 429 and 5xx responses are retried according to `config.retry`.
+ * Requests go through `config.fetch` and `config.interceptors` when set.
+ *
+ * @example
+ * ```ts
+ * const client = new WishBridgeClient({
+ *   apiUrl: 'https://wishbridge.temperedtools.xyz',
+ *   apiKey: 'wb_live_...',
+ *   shopDomain: 'my-store.myshopify.com',
+ *   customerId: customer.id,
+ * });
+ *
+ * // The same scoped storage the provider uses
+ * const guestStorage = createScopedStorageAdapter(createLocalStorageAdapter(), {
+ *   shopDomain: 'my-store.myshopify.com',
+ * });
+ * const { items } = await client.sync({ guestItems: await getStoredItems(guestStorage) });
+ * ```
+ */
+export class WishBridgeClient {
+  private readonly config: WishBridgeConfig;
+  private readonly options: WishBridgeClientOptions;
+  private readonly retryPolicy: ResolvedRetryPolicy;
+
+  constructor(config: WishBridgeConfig, options: WishBridgeClientOptions = {}) {
+    this.config = config;
+    this.options = options;
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+  }
+
+  /**
+   * Whether the client has enough configuration to call the backend
+   */
+  get isEnabled(): boolean {
+    if (this.isCustomerAccountStorage) {
+      return Boolean(this.config.customerId && this.config.proxyUrl);
+    }
+
+    return Boolean(
+      this.config.customerId && (this.config.apiKey || this.config.proxyUrl),
+    );
+  }
+
+  private get isCustomerAccountStorage(): boolean {
+    return this.config.storage === 'customer-account';
+  }
+
+  /**
+   * Merge guest items into the customer's metafield wishlist
+   */
+  sync(
+    request: SyncWishlistRequest,
+    options?: WishBridgeRequestOptions,
+  ): Promise<SyncWishlistResponse> {
+    return this.request<SyncWishlistResponse>(
+      'sync',
+      request,
+      DEFAULT_ERROR_MESSAGES.syncFailed,
+      options,
+    );
+  }
+
+  /**
+   * Add or remove items in the customer's metafield wishlist,
+   * either a single operation or an ordered batch
+   */
+  update(
+    request: UpdateWishlistRequest,
+    options?: WishBridgeRequestOptions,
+  ): Promise<UpdateWishlistResponse> {
+    return this.request<UpdateWishlistResponse>(
+      'update',
+      request,
+      DEFAULT_ERROR_MESSAGES.unknown,
+      options,
+    );
+  }
+
+  /**
+   * Record an analytics event.
+   * A no-op with `customer-account` storage.
+   */
+  event(
+    request: AnalyticsEventRequest,
+    options?: WishBridgeRequestOptions,
+  ): Promise<AnalyticsEventResponse> {
+    if (this.isCustomerAccountStorage) {
+      return Promise.resolve({ success: true });
+    }
+
+    return this.request<AnalyticsEventResponse>(
+      'event',
+      request,
+      DEFAULT_ERROR_MESSAGES.unknown,
+      options,
+    );
+  }
+
+  /**
+   * Create a shareable link to the customer's wishlist.
+   * Not available with `customer-account` storage.
+   */
+  share(
+    request: CreateShareLinkRequest = {},
+    options?: WishBridgeRequestOptions,
+  ): Promise<CreateShareLinkResponse> {
+    if (this.isCustomerAccountStorage) {
+      return Promise.reject(
+        new WishBridgeError('request_failed', DEFAULT_ERROR_MESSAGES.shareUnavailable),
+      );
+    }
+
+    return this.request<CreateShareLinkResponse>(
+      'share',
+      request,
+      DEFAULT_ERROR_MESSAGES.unknown,
+      options,
+    );
+  }
+
+  private async request<T extends { success: boolean; error?: string }>(
+    endpoint: WishBridgeEndpoint,
+    payload: object,
+    fallbackError: string,
+    options: WishBridgeRequestOptions = {},
+  ): Promise<T> {
+    let attempt = 0;
+
+    try {
+      for (;;) {
+        attempt += 1;
+
+        try {
+          return await this.send<T>(endpoint, payload, fallbackError, options);
+        } catch (err) {
+          if (!(err instanceof WishBridgeError)) throw err;
+
+          const delayMs = this.getRetryDelay(err, attempt);
+          if (delayMs === undefined || options.signal?.aborted) throw err;
+
+          this.options.onRetryStateChange?.({
+            endpoint,
+            attempt,
+            maxAttempts: this.retryPolicy.maxAttempts,
+            delayMs,
+            error: err.message,
+          });
+
+          try {
+            await sleep(delayMs, options.signal);
+          } catch {
+            throw err;
+          }
+        }
+      }
+    } finally {
+      if (attempt > 1) {
+        this.options.onRetryStateChange?.(undefined);
+      }
+    }
+  }
+
+  /**
+   * Delay before retrying a failed attempt, or undefined to give up
+   */
+  private getRetryDelay(error: WishBridgeError, attempt: number): number | undefined {
+    const policy = this.retryPolicy;
+
+    if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+      return undefined;
+    }
+
+    if (error.retryAfterMs !== undefined) {
+      return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : undefined;
+    }
+
+    return computeRetryDelay(attempt, policy);
+  }
+
+  private getUrl(endpoint: WishBridgeEndpoint): string {
+    if (this.config.proxyUrl) {
+      return `${this.config.proxyUrl.replace(/\/$/, '')}/${endpoint}`;
+    }
+
+    return `${this.config.apiUrl ?? DEFAULT_API_URL}${API_ENDPOINTS[endpoint]}`;
+  }
+
+  private async send<T extends { success: boolean; error?: string }>(
+    endpoint: WishBridgeEndpoint,
+    payload: object,
+    fallbackError: string,
+    options: WishBridgeRequestOptions,
+  ): Promise<T> {
+    let request: WishBridgeRequest = {
+      endpoint,
+      url: this.getUrl(endpoint),
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey && {
+            Authorization: `Bearer ${this.config.apiKey}`,
+          }),
+        },
+        body: JSON.stringify({
+          ...payload,
+          customerId: this.config.customerId,
+          shop: this.config.shopDomain,
+        }),
+      },
+    };
+
+    for (const intercept of this.config.interceptors?.request ?? []) {
+      request = await intercept(request);
+    }
+
+    // Attach the signal after the interceptors, so a replaced `init`
+    // can't drop the timeout. A signal an interceptor set still aborts.
+    const controller = new AbortController();
+    const abortSignals = [options.signal, request.init.signal ?? undefined];
+    request = { ...request, init: { ...request.init, signal: controller.signal } };
+
+    const timeoutMs = options.timeoutMs ?? REQUEST_TIMEOUT_MS;
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    const abort = () => controller.abort();
+    for (const signal of abortSignals) {
+      // A signal that was already aborted won't fire again
+      if (signal?.aborted) abort();
+      signal?.addEventListener('abort', abort);
+    }
+
+    // The timer runs until the body is parsed, so a stalled body times out too
+    try {
+      let res: Response;
+      try {
+        controller.signal.throwIfAborted();
+        const fetchFn = this.config.fetch ?? globalThis.fetch;
+        res = await fetchFn(request.url, request.init);
+      } catch {
+        throw new WishBridgeError(
+          timedOut ? 'timeout' : 'network',
+          DEFAULT_ERROR_MESSAGES.network,
+        );
+      }
+
+      for (const intercept of this.config.interceptors?.response ?? []) {
+        res = await intercept(res, request);
+      }
+
+      const retryAfterMs = parseRetryAfter(res.headers.get('Retry-After'));
+
+      if (res.status === 429) {
+        throw new WishBridgeError(
+          'rate_limited',
+          DEFAULT_ERROR_MESSAGES.rateLimited,
+          429,
+          retryAfterMs,
+        );
+      }
+
+      let result: T;
+      try {
+        result = (await readBody(res, controller.signal)) as T;
+      } catch {
+        if (timedOut) {
+          throw new WishBridgeError('timeout', DEFAULT_ERROR_MESSAGES.network);
+        }
+        throw new WishBridgeError('invalid_response', fallbackError, res.status, retryAfterMs);
+      }
+
+      if (!res.ok || !result.success) {
+        throw new WishBridgeError(
+          'request_failed',
+          result.error ?? fallbackError,
+          res.status,
+          retryAfterMs,
+        );
+      }
+
+      return result;
+    } finally {
+      clearTimeout(timer);
+      for (const signal of abortSignals) {
+        signal?.removeEventListener('abort', abort);
+      }
+    }
+  }
+}
+
+/**
+ * Parse a JSON response body, giving up when the signal aborts
+ */
+function readBody(res: Response, signal: AbortSignal): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    res.json().then(resolve, reject);
+  });
+}
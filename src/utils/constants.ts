@@ -9,6 +9,9 @@ export const DEFAULT_ERROR_MESSAGES = {
   notConfigured: 'WishlistProvider is not configured.',
   network: 'Network error. Please try again.',
   rateLimited: 'Too many requests. Please try again later.',
+  shareUnavailable: 'Share links require the WishBridge backend.',
+  wishlistTooLarge: 'Wishlist is too large to save.',
+  wishlistFull: 'Your wishlist is full. Remove an item to add another.',
   syncFailed: 'Failed to sync wishlist. Please try again.',
   unknown: 'An unexpected error occurred.',
 };
@@ -29,8 +32,51 @@ export const DEFAULT_SUCCESS_MESSAGES = {
 export const STORAGE_KEYS = {
   wishlistItems: 'wishbridge_items',
   lastSyncTimestamp: 'wishbridge_last_sync',
+  syncedItems: 'wishbridge_synced_items',
+  pendingOperations: 'wishbridge_pending_ops',
+  liveProducts: 'wishbridge_live_products',
+  availability: 'wishbridge_availability',
+  tabSync: 'wishbridge_tab_sync',
 };
 
+/**
+ * Cookie mirroring guest wishlist keys for server rendering
+ */
+export const GUEST_COOKIE_NAME = 'wishbridge_guest';
+
+/**
+ * Largest guest cookie value. Browsers cap a cookie at about 4KB
+ * including its name and attributes.
+ */
+export const GUEST_COOKIE_MAX_BYTES = 3072;
+
+/**
+ * Guest cookie lifetime in seconds (one year)
+ */
+export const GUEST_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Title for items restored from the guest cookie before live product
+ * data replaces it
+ */
+export const PLACEHOLDER_PRODUCT_TITLE = 'Saved item';
+
+/**
+ * BroadcastChannel name for keeping open tabs in sync
+ */
+export const TAB_SYNC_CHANNEL = 'wishbridge';
+
+/**
+ * IndexedDB database and object store used by `createIndexedDBAdapter`
+ */
+export const INDEXED_DB_NAME = 'wishbridge';
+export const INDEXED_DB_STORE = 'keyval';
+
+/**
+ * Hosted WishBridge backend
+ */
+export const DEFAULT_API_URL = 'https://wishbridge.temperedtools.xyz';
+
 /**
  * API endpoints
  */
@@ -46,6 +92,37 @@ export const API_ENDPOINTS = {
  */
 export const REQUEST_TIMEOUT_MS = 10000;
 
+/**
+ * Default window for coalescing customer updates into one request
+ */
+export const UPDATE_BATCH_WINDOW_MS = 50;
+
+/**
+ * Default retry policy for WishBridge requests
+ */
+export const DEFAULT_RETRY_POLICY = {
+  maxAttempts: 3,
+  backoff: 'exponential' as const,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  jitter: 'full' as const,
+};
+
+/**
+ * Current version of the stored wishlist envelope
+ */
+export const WISHLIST_SCHEMA_VERSION = 2;
+
+/**
+ * Built-in merge strategies
+ */
+export const MERGE_STRATEGIES = ['union', 'server-wins', 'guest-wins', 'latest-wins'] as const;
+
+/**
+ * How long removal tombstones are kept before they're garbage-collected
+ */
+export const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
 /**
  * Metafield namespace for wishlist data
  */
@@ -55,3 +132,29 @@ export const METAFIELD_NAMESPACE = 'wishbridge';
  * Metafield key for wishlist items
  */
 export const METAFIELD_KEY = 'items';
+
+/**
+ * Largest value written to a single wishlist metafield, in bytes.
+ * Larger wishlists are compacted and split across `items_1`, `items_2`, ...
+ */
+export const METAFIELD_MAX_VALUE_BYTES = 64 * 1024;
+
+/**
+ * Maximum number of metafields a wishlist may span, including `items`
+ */
+export const METAFIELD_MAX_SHARDS = 10;
+
+/**
+ * Default Storefront API version
+ */
+export const DEFAULT_STOREFRONT_API_VERSION = '2025-01';
+
+/**
+ * Maximum IDs per Storefront API `nodes` query
+ */
+export const STOREFRONT_NODES_LIMIT = 250;
+
+/**
+ * How long live product data stays cached in sessionStorage
+ */
+export const LIVE_PRODUCT_CACHE_TTL_MS = 10 * 60 * 1000;
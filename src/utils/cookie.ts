@@ -0,0 +1,134 @@
+/**
+ * Guest wishlist cookie
+ *
+ * Mirrors the guest's product and variant keys into a small cookie so a
+ * Hydrogen loader can render hearts and counts on the server. Only keys
+ * and the time each item was added are kept; titles, images and prices
+ * come back from the Storefront API.
+ *
+ * Value format: `1:<item>-<item>-...` where each item is
+ * `<product>.<variant>.<addedAt>`, with numeric IDs and Unix seconds in
+ * base 36 and the variant left empty when there is none.
+ */
+
+import {
+  GUEST_COOKIE_MAX_BYTES,
+  GUEST_COOKIE_NAME,
+  PLACEHOLDER_PRODUCT_TITLE,
+} from './constants.js';
+
+import type { WishlistItem } from '../types.js';
+
+const COOKIE_FORMAT_VERSION = '1';
+const PRODUCT_GID_PREFIX = 'gid://shopify/Product/';
+const VARIANT_GID_PREFIX = 'gid://shopify/ProductVariant/';
+
+function toBase36Id(id: string | undefined, prefix: string): string | undefined {
+  const rest = id?.startsWith(prefix) ? id.slice(prefix.length) : undefined;
+  return rest && /^\d+$/.test(rest) ? Number(rest).toString(36) : undefined;
+}
+
+function fromBase36Id(value: string, prefix: string): string | undefined {
+  const id = /^[0-9a-z]+$/.test(value) ? parseInt(value, 36) : NaN;
+  return Number.isSafeInteger(id) ? `${prefix}${id}` : undefined;
+}
+
+function encodeCookieItem(item: WishlistItem): string | undefined {
+  const product = toBase36Id(item.productId, PRODUCT_GID_PREFIX);
+  const variant = item.variantId ? toBase36Id(item.variantId, VARIANT_GID_PREFIX) : '';
+  if (!product || variant === undefined) {
+    return undefined;
+  }
+
+  const addedAt = Date.parse(item.addedAt);
+  const seconds = Number.isNaN(addedAt) ? 0 : Math.floor(addedAt / 1000);
+  return `${product}.${variant}.${seconds.toString(36)}`;
+}
+
+function decodeCookieItem(value: string): WishlistItem | undefined {
+  const [product = '', variant = '', added = ''] = value.split('.');
+  const productId = fromBase36Id(product, PRODUCT_GID_PREFIX);
+  const variantId = variant ? fromBase36Id(variant, VARIANT_GID_PREFIX) : undefined;
+  const seconds = parseInt(added, 36);
+
+  if (!productId || (variant && !variantId)) {
+    return undefined;
+  }
+
+  return {
+    productId,
+    ...(variantId && { variantId }),
+    productTitle: PLACEHOLDER_PRODUCT_TITLE,
+    addedAt: new Date(Number.isNaN(seconds) ? 0 : seconds * 1000).toISOString(),
+  };
+}
+
+/**
+ * Encode items as a guest cookie value. Items without numeric Shopify
+ * IDs are skipped. When the list doesn't fit in `maxBytes`, the most
+ * recently added items are kept.
+ */
+export function encodeWishlistCookie(
+  items: WishlistItem[],
+  maxBytes = GUEST_COOKIE_MAX_BYTES,
+): string {
+  const encoded = items
+    .map((item, index) => ({ index, addedAt: item.addedAt, value: encodeCookieItem(item) }))
+    .filter((entry): entry is { index: number; addedAt: string; value: string } =>
+      Boolean(entry.value),
+    );
+
+  // Newest first; ISO timestamps compare correctly as strings
+  const byNewest = [...encoded].sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+  const kept = new Set<number>();
+  let size = COOKIE_FORMAT_VERSION.length + 1;
+
+  for (const entry of byNewest) {
+    const entrySize = entry.value.length + (kept.size > 0 ? 1 : 0);
+    if (size + entrySize > maxBytes) break;
+    kept.add(entry.index);
+    size += entrySize;
+  }
+
+  const values = encoded.filter((entry) => kept.has(entry.index)).map((entry) => entry.value);
+  return `${COOKIE_FORMAT_VERSION}:${values.join('-')}`;
+}
+
+/**
+ * Decode a guest cookie value. Unknown formats decode to an empty list.
+ */
+export function decodeWishlistCookie(value: string | null | undefined): WishlistItem[] {
+  if (!value?.startsWith(`${COOKIE_FORMAT_VERSION}:`)) {
+    return [];
+  }
+
+  const body = value.slice(COOKIE_FORMAT_VERSION.length + 1);
+  if (!body) {
+    return [];
+  }
+
+  return body
+    .split('-')
+    .map(decodeCookieItem)
+    .filter((item): item is WishlistItem => item !== undefined);
+}
+
+/**
+ * Read a cookie's value from a `Cookie` header or `document.cookie`
+ */
+export function readCookie(
+  cookieHeader: string | null | undefined,
+  name = GUEST_COOKIE_NAME,
+): string | undefined {
+  for (const part of cookieHeader?.split(';') ?? []) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,63 @@
+/**
+ * Incremental sync helpers
+ *
+ * A delta lists the items changed since a watermark, so repeat syncs
+ * only transfer what changed instead of the whole wishlist.
+ */
+
+import { createItemKey } from './merge.js';
+import { isValidWishlistItem } from './validation.js';
+
+import type { WishlistDelta, WishlistItem, WishlistItemRef } from '../types.js';
+
+/**
+ * Net changes that turn `before` into `after`
+ */
+export function diffWishlists(before: WishlistItem[], after: WishlistItem[]): WishlistDelta {
+  const previous = new Map(before.map((item) => [createItemKey(item), item]));
+  const current = new Set(after.map(createItemKey));
+
+  return {
+    added: after.filter((item) => {
+      const old = previous.get(createItemKey(item));
+      return !old || JSON.stringify(old) !== JSON.stringify(item);
+    }),
+    removed: before
+      .filter((item) => !current.has(createItemKey(item)))
+      .map(({ productId, variantId }) => ({ productId, variantId })),
+  };
+}
+
+/**
+ * Apply a delta to a list. Changed items keep their position and new
+ * items are appended. Invalid entries are skipped.
+ */
+export function applyWishlistDelta(base: WishlistItem[], delta: WishlistDelta): WishlistItem[] {
+  const added = (Array.isArray(delta.added) ? delta.added : []).filter(
+    isValidWishlistItem,
+  ) as WishlistItem[];
+  const removed = new Set(
+    (Array.isArray(delta.removed) ? delta.removed : [])
+      .filter((ref: WishlistItemRef) => typeof ref?.productId === 'string')
+      .map(createItemKey),
+  );
+  const updates = new Map(added.map((item) => [createItemKey(item), item]));
+
+  const items = base
+    .filter((item) => !removed.has(createItemKey(item)))
+    .map((item) => {
+      const key = createItemKey(item);
+      const updated = updates.get(key);
+      updates.delete(key);
+      return updated ?? item;
+    });
+
+  return [...items, ...updates.values()];
+}
+
+/**
+ * Whether a delta has no changes
+ */
+export function isEmptyDelta(delta: WishlistDelta): boolean {
+  return delta.added.length === 0 && delta.removed.length === 0;
+}
@@ -0,0 +1,282 @@
+/**
+ * Wishlist metafield encoding
+ *
+ * Small wishlists are stored as a versioned envelope under
+ * `wishbridge.items`. Lists too large for one metafield are stored in a
+ * compact form and split across `items`, `items_1`, `items_2`, ...:
+ *
+ *   items   → { "version": 2, "encoding": "compact", "shards": 3, "items": [...], "updatedAt": ... }
+ *   items_1 → [...]
+ *   items_2 → [...]
+ *
+ * Removal tombstones are kept in `removed` on the envelope or head.
+ */
+
+import {
+  DEFAULT_ERROR_MESSAGES,
+  METAFIELD_KEY,
+  METAFIELD_MAX_SHARDS,
+  METAFIELD_MAX_VALUE_BYTES,
+  METAFIELD_NAMESPACE,
+} from './constants.js';
+import { WishBridgeError } from './errors.js';
+import { createWishlistEnvelope, migrateWishlistPayload } from './schema.js';
+import { isValidWishlistItem, isValidWishlistTombstone } from './validation.js';
+
+import type { CompactWishlistItem, WishlistItem, WishlistTombstone } from '../types.js';
+
+/**
+ * Metafield key and JSON value to write
+ */
+export interface WishlistMetafieldEntry {
+  key: string;
+  value: string;
+}
+
+/**
+ * Shard metafield as returned by a `metafields(identifiers:)` query
+ */
+export type WishlistShardMetafield = { key: string; value: string } | null;
+
+interface CompactHead {
+  version?: number;
+  encoding: 'compact';
+  shards: number;
+  items: unknown[];
+  updatedAt?: string;
+  removed?: WishlistTombstone[];
+}
+
+const PRODUCT_GID_PREFIX = 'gid://shopify/Product/';
+const VARIANT_GID_PREFIX = 'gid://shopify/ProductVariant/';
+
+// Room for the head's version, encoding, shard count and updatedAt
+const HEAD_OVERHEAD_BYTES = 128;
+
+/**
+ * Keys of the extra shard metafields, after `items`
+ */
+export const WISHLIST_SHARD_KEYS = Array.from(
+  { length: METAFIELD_MAX_SHARDS - 1 },
+  (_, index) => `${METAFIELD_KEY}_${index + 1}`,
+);
+
+/**
+ * GraphQL selection for the shard metafields, for use on a `Customer`
+ */
+export const WISHLIST_SHARDS_SELECTION = `shards: metafields(identifiers: [${WISHLIST_SHARD_KEYS.map(
+  (key) => `{ namespace: "${METAFIELD_NAMESPACE}", key: "${key}" }`,
+).join(', ')}]) {
+        key
+        value
+      }`;
+
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+function stripPrefix(id: string, prefix: string): string {
+  const rest = id.startsWith(prefix) ? id.slice(prefix.length) : undefined;
+  return rest && /^\d+$/.test(rest) ? rest : id;
+}
+
+function addPrefix(id: string, prefix: string): string {
+  return /^\d+$/.test(id) ? `${prefix}${id}` : id;
+}
+
+/**
+ * Encode an item compactly
+ */
+export function compactWishlistItem(item: WishlistItem): CompactWishlistItem {
+  return {
+    p: stripPrefix(item.productId, PRODUCT_GID_PREFIX),
+    ...(item.variantId && { v: stripPrefix(item.variantId, VARIANT_GID_PREFIX) }),
+    t: item.productTitle,
+    a: item.addedAt,
+    ...(item.price && { $: [item.price.amount, item.price.currencyCode] }),
+  };
+}
+
+/**
+ * Decode a compact item. Returns undefined if it is malformed.
+ */
+export function expandWishlistItem(compact: unknown): WishlistItem | undefined {
+  if (!compact || typeof compact !== 'object') {
+    return undefined;
+  }
+
+  const obj = compact as Record<string, unknown>;
+  const price = obj['$'];
+
+  const item: WishlistItem = {
+    productId: typeof obj['p'] === 'string' ? addPrefix(obj['p'], PRODUCT_GID_PREFIX) : '',
+    ...(typeof obj['v'] === 'string' && { variantId: addPrefix(obj['v'], VARIANT_GID_PREFIX) }),
+    productTitle: typeof obj['t'] === 'string' ? obj['t'] : '',
+    addedAt: typeof obj['a'] === 'string' ? obj['a'] : '',
+    ...(Array.isArray(price) &&
+      typeof price[0] === 'string' &&
+      typeof price[1] === 'string' && {
+        price: { amount: price[0], currencyCode: price[1] },
+      }),
+  };
+
+  return isValidWishlistItem(item) ? item : undefined;
+}
+
+/**
+ * Split compact items into chunks that each serialize within `maxBytes`
+ */
+function chunkItems(
+  items: CompactWishlistItem[],
+  maxBytes: number,
+  headBytes: number,
+): CompactWishlistItem[][] {
+  const chunks: CompactWishlistItem[][] = [];
+  let chunk: CompactWishlistItem[] = [];
+  let size = 2; // []
+
+  for (const item of items) {
+    const itemSize = byteLength(JSON.stringify(item)) + 1; // trailing comma
+    const limit = chunks.length === 0 ? maxBytes - headBytes : maxBytes;
+
+    if (chunk.length > 0 && size + itemSize > limit) {
+      chunks.push(chunk);
+      chunk = [];
+      size = 2;
+    }
+
+    chunk.push(item);
+    size += itemSize;
+  }
+
+  chunks.push(chunk);
+  return chunks;
+}
+
+/**
+ * Encode items and tombstones as wishlist metafield values, starting
+ * with `items`. Uses a single envelope when it fits, otherwise compact
+ * shards. Throws a `WishBridgeError` when the list needs more than
+ * `METAFIELD_MAX_SHARDS` metafields.
+ */
+export function encodeWishlistMetafields(
+  items: WishlistItem[],
+  maxBytes = METAFIELD_MAX_VALUE_BYTES,
+  removed: WishlistTombstone[] = [],
+): WishlistMetafieldEntry[] {
+  const envelope = createWishlistEnvelope(items, undefined, removed);
+  const plain = JSON.stringify(envelope);
+  if (byteLength(plain) <= maxBytes) {
+    return [{ key: METAFIELD_KEY, value: plain }];
+  }
+
+  const headBytes =
+    HEAD_OVERHEAD_BYTES + (envelope.removed ? byteLength(JSON.stringify(envelope.removed)) : 0);
+  const chunks = chunkItems(items.map(compactWishlistItem), maxBytes, headBytes);
+
+  if (chunks.length > METAFIELD_MAX_SHARDS) {
+    throw new WishBridgeError('request_failed', DEFAULT_ERROR_MESSAGES.wishlistTooLarge);
+  }
+
+  const [first = [], ...rest] = chunks;
+  const head: CompactHead = {
+    version: envelope.version,
+    encoding: 'compact',
+    shards: chunks.length,
+    items: first,
+    updatedAt: envelope.updatedAt,
+    ...(envelope.removed && { removed: envelope.removed }),
+  };
+
+  return [
+    { key: METAFIELD_KEY, value: JSON.stringify(head) },
+    ...rest.map((chunk, index) => ({
+      key: `${METAFIELD_KEY}_${index + 1}`,
+      value: JSON.stringify(chunk),
+    })),
+  ];
+}
+
+function parseJson(value: string | null | undefined): unknown {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function isCompactHead(value: unknown): value is CompactHead {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+
+  const obj = value as Record<string, unknown>;
+  return (
+    obj['encoding'] === 'compact' &&
+    typeof obj['shards'] === 'number' &&
+    Array.isArray(obj['items'])
+  );
+}
+
+/**
+ * Number of metafields a stored wishlist spans, from its `items` value
+ */
+export function getWishlistShardCount(head: string | null | undefined): number {
+  const parsed = parseJson(head);
+  return isCompactHead(parsed) ? Math.max(1, Math.min(parsed.shards, METAFIELD_MAX_SHARDS)) : 1;
+}
+
+/**
+ * Reassemble and validate items from the `items` value and its shards.
+ * Malformed shards and items are dropped.
+ */
+export function decodeWishlistMetafields(
+  head: string | null | undefined,
+  shards: WishlistShardMetafield[] | null | undefined = [],
+): WishlistItem[] {
+  const parsed = parseJson(head);
+
+  if (!isCompactHead(parsed)) {
+    return migrateWishlistPayload(parsed)?.items ?? [];
+  }
+
+  const values = new Map<string, string>();
+  for (const shard of shards ?? []) {
+    if (shard) values.set(shard.key, shard.value);
+  }
+
+  const pieces: unknown[] = [...parsed.items];
+
+  for (const key of WISHLIST_SHARD_KEYS.slice(0, getWishlistShardCount(head) - 1)) {
+    const shard = parseJson(values.get(key));
+    if (Array.isArray(shard)) {
+      pieces.push(...shard);
+    } else {
+      console.warn(`WishBridge: Wishlist metafield shard "${key}" is missing or invalid`);
+    }
+  }
+
+  return pieces.flatMap((piece) => {
+    const item = expandWishlistItem(piece);
+    return item ? [item] : [];
+  });
+}
+
+/**
+ * Read removal tombstones from the `items` value
+ */
+export function decodeWishlistTombstones(head: string | null | undefined): WishlistTombstone[] {
+  const parsed = parseJson(head);
+
+  if (!isCompactHead(parsed)) {
+    return migrateWishlistPayload(parsed)?.removed ?? [];
+  }
+
+  return Array.isArray(parsed.removed)
+    ? (parsed.removed.filter(isValidWishlistTombstone) as WishlistTombstone[])
+    : [];
+}
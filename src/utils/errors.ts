@@ -0,0 +1,59 @@
+/**
+ * Error types for @tempered/hydrogen-wishlist
+ */
+
+/**
+ * Machine-readable reason for a failed WishBridge call
+ */
+export type WishBridgeErrorCode =
+  | 'network'
+  | 'timeout'
+  | 'rate_limited'
+  | 'request_failed'
+  | 'invalid_response'
+  | 'wishlist_full';
+
+/**
+ * Error thrown by WishBridgeClient when a request fails, and by guest
+ * storage when the list is full
+ */
+export class WishBridgeError extends Error {
+  readonly code: WishBridgeErrorCode;
+
+  /**
+   * HTTP status, when the backend responded
+   */
+  readonly status?: number;
+
+  /**
+   * Delay requested by a Retry-After header, in milliseconds
+   */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    code: WishBridgeErrorCode,
+    message: string,
+    status?: number,
+    retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'WishBridgeError';
+    this.code = code;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Check whether an error is a WishBridgeError
+ */
+export function isWishBridgeError(error: unknown): error is WishBridgeError {
+  return error instanceof WishBridgeError;
+}
+
+/**
+ * Machine-readable code of an error, if it is a WishBridgeError
+ */
+export function getErrorCode(error: unknown): WishBridgeErrorCode | undefined {
+  return isWishBridgeError(error) ? error.code : undefined;
+}
@@ -1,34 +1,88 @@
 /**
  * Wishlist merge utilities
  *
- * Handles merging guest wishlist with customer metafield wishlist on login.
+ * Handles merging guest wishlist with customer metafield wishlist on login,
+ * using one of the `WishlistMergeStrategy` rules. Removals are kept as
+ * tombstones, so a stale copy elsewhere doesn't bring an item back.
  */
 
-import type { WishlistItem } from '../types.js';
+import { TOMBSTONE_TTL_MS } from './constants.js';
+import { isValidWishlistItem } from './validation.js';
+
+import type {
+  WishlistItem,
+  WishlistItemRef,
+  WishlistMergeReport,
+  WishlistMergeStrategy,
+  WishlistOperation,
+  WishlistTombstone,
+} from '../types.js';
+
+export interface MergeWishlistsOptions {
+  /**
+   * Removals to respect; items added before a matching tombstone are left out
+   */
+  tombstones?: WishlistTombstone[];
+
+  /**
+   * @default 'union'
+   */
+  strategy?: WishlistMergeStrategy;
+
+  /**
+   * Save the guest list in place of the customer list, even when it is
+   * empty. Overrides `strategy`.
+   */
+  replace?: boolean;
+}
 
 /**
- * Merge two wishlists, keeping earliest addedAt for duplicates.
- * Union by productId + variantId.
+ * Merge a guest list into a customer list, leaving out items added
+ * before a matching tombstone. By default this is a union by
+ * productId + variantId, keeping the earliest addedAt for duplicates.
+ * `'guest-wins'` keeps the customer list when the guest list is empty.
  */
 export function mergeWishlists(
   guestItems: WishlistItem[],
   customerItems: WishlistItem[],
+  options: MergeWishlistsOptions = {},
 ): WishlistItem[] {
+  const { tombstones = [], strategy = 'union', replace = false } = options;
+  const guest = applyTombstones(guestItems, tombstones);
+  const customer = applyTombstones(customerItems, tombstones);
+
+  if (replace) {
+    return guest;
+  }
+
+  if (strategy === 'server-wins' || (strategy === 'guest-wins' && guest.length === 0)) {
+    return customer;
+  }
+
+  if (strategy === 'guest-wins') {
+    return guest;
+  }
+
   const merged = new Map<string, WishlistItem>();
 
   // Add customer items first (lower priority for addedAt)
-  for (const item of customerItems) {
+  for (const item of customer) {
     const key = createItemKey(item);
     merged.set(key, item);
   }
 
   // Add guest items, keeping earlier addedAt
-  for (const item of guestItems) {
+  for (const item of guest) {
     const key = createItemKey(item);
     const existing = merged.get(key);
 
     if (!existing) {
       merged.set(key, item);
+    } else if (strategy === 'latest-wins') {
+      // Keep whichever copy was added most recently, as-is
+      if (new Date(item.addedAt) > new Date(existing.addedAt)) {
+        merged.set(key, item);
+      }
     } else {
       // Keep the earlier addedAt timestamp
       const existingDate = new Date(existing.addedAt);
@@ -51,13 +105,177 @@ export function mergeWishlists(
   });
 }
 
+/**
+ * Merge a guest list that hasn't been validated yet, reporting what
+ * happened to each guest entry
+ */
+export function mergeWishlistsWithReport(
+  guestItems: unknown[],
+  customerItems: WishlistItem[],
+  options: MergeWishlistsOptions = {},
+): { items: WishlistItem[]; report: WishlistMergeReport } {
+  const valid = guestItems.filter(isValidWishlistItem) as WishlistItem[];
+  const rejected = guestItems.filter((item) => !isValidWishlistItem(item));
+  const items = mergeWishlists(valid, customerItems, options);
+
+  return { items, report: createMergeReport(valid, customerItems, items, rejected) };
+}
+
+/**
+ * Compare a guest list and a customer list with their merge result.
+ * Works with any strategy, including custom resolvers.
+ */
+export function createMergeReport(
+  guestItems: WishlistItem[],
+  customerItems: WishlistItem[],
+  mergedItems: WishlistItem[],
+  rejected: unknown[] = [],
+): WishlistMergeReport {
+  const customer = new Map(customerItems.map((item) => [createItemKey(item), item]));
+  const merged = new Map(mergedItems.map((item) => [createItemKey(item), item]));
+  const report: WishlistMergeReport = {
+    added: [],
+    duplicates: [],
+    conflicts: [],
+    discarded: [],
+    rejected,
+  };
+
+  for (const item of deduplicateItems(guestItems)) {
+    const key = createItemKey(item);
+    const resolved = merged.get(key);
+    const existing = customer.get(key);
+
+    if (!resolved) {
+      report.discarded.push(item);
+    } else if (!existing) {
+      report.added.push(resolved);
+    } else if (hasSameDetails(item, existing)) {
+      report.duplicates.push(resolved);
+    } else {
+      report.conflicts.push({ guest: item, customer: existing, resolved });
+    }
+  }
+
+  return report;
+}
+
+// Title and price survive the compact metafield encoding, so they're
+// the fields both copies can be compared on
+function hasSameDetails(a: WishlistItem, b: WishlistItem): boolean {
+  return (
+    a.productTitle === b.productTitle &&
+    a.price?.amount === b.price?.amount &&
+    a.price?.currencyCode === b.price?.currencyCode
+  );
+}
+
 /**
  * Create a unique key for a wishlist item
  */
-export function createItemKey(item: WishlistItem): string {
+export function createItemKey(item: WishlistItemRef): string {
   return `${item.productId}:${item.variantId ?? 'default'}`;
 }
 
+/**
+ * Apply add/remove operations to an item list, in order.
+ * Used to replay queued changes on top of a server list.
+ */
+export function applyOperations(
+  items: WishlistItem[],
+  operations: WishlistOperation[],
+): WishlistItem[] {
+  let result = items;
+
+  for (const op of operations) {
+    const key = createItemKey(op.item);
+    const withoutItem = result.filter((item) => createItemKey(item) !== key);
+
+    if (op.action === 'remove') {
+      result = withoutItem;
+    } else if (withoutItem.length === result.length) {
+      result = [op.item as WishlistItem, ...result];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Drop items that were added before a matching tombstone
+ */
+export function applyTombstones(
+  items: WishlistItem[],
+  tombstones: WishlistTombstone[],
+): WishlistItem[] {
+  if (tombstones.length === 0) {
+    return items;
+  }
+
+  const removedAt = new Map(
+    mergeTombstones(tombstones).map((t) => [createItemKey(t), Date.parse(t.removedAt)]),
+  );
+
+  return items.filter((item) => {
+    const removed = removedAt.get(createItemKey(item));
+    return removed === undefined || Date.parse(item.addedAt) > removed;
+  });
+}
+
+/**
+ * Combine tombstone lists, keeping the latest removal per item
+ */
+export function mergeTombstones(...lists: WishlistTombstone[][]): WishlistTombstone[] {
+  const merged = new Map<string, WishlistTombstone>();
+
+  for (const tombstone of lists.flat()) {
+    const key = createItemKey(tombstone);
+    const existing = merged.get(key);
+    if (!existing || Date.parse(tombstone.removedAt) > Date.parse(existing.removedAt)) {
+      merged.set(key, tombstone);
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Drop tombstones older than `ttlMs`
+ */
+export function pruneTombstones(
+  tombstones: WishlistTombstone[],
+  ttlMs: number = TOMBSTONE_TTL_MS,
+  now = Date.now(),
+): WishlistTombstone[] {
+  return tombstones.filter((t) => now - Date.parse(t.removedAt) < ttlMs);
+}
+
+/**
+ * Record tombstones for removed items and clear them for items added back
+ */
+export function recordTombstones(
+  tombstones: WishlistTombstone[],
+  operations: WishlistOperation[],
+  removedAt: string = new Date().toISOString(),
+): WishlistTombstone[] {
+  const result = new Map(tombstones.map((t) => [createItemKey(t), t]));
+
+  for (const { action, item } of operations) {
+    const key = createItemKey(item);
+    if (action === 'remove') {
+      result.set(key, {
+        productId: item.productId,
+        ...(item.variantId && { variantId: item.variantId }),
+        removedAt,
+      });
+    } else {
+      result.delete(key);
+    }
+  }
+
+  return Array.from(result.values());
+}
+
 /**
  * Find new items that were added during merge
  */
@@ -91,7 +309,7 @@ export function deduplicateItems(items: WishlistItem[]): WishlistItem[] {
 /**
  * Sort wishlist items by addedAt (newest first)
  */
-export function sortByNewest(items: WishlistItem[]): WishlistItem[] {
+export function sortByNewest<T extends WishlistItem>(items: T[]): T[] {
   return [...items].sort((a, b) => {
     return new Date(b.addedAt).getTime() - new Date(a.addedAt).getTime();
   });
@@ -100,7 +318,7 @@ export function sortByNewest(items: WishlistItem[]): WishlistItem[] {
 /**
  * Sort wishlist items by addedAt (oldest first)
  */
-export function sortByOldest(items: WishlistItem[]): WishlistItem[] {
+export function sortByOldest<T extends WishlistItem>(items: T[]): T[] {
   return [...items].sort((a, b) => {
     return new Date(a.addedAt).getTime() - new Date(b.addedAt).getTime();
   });
@@ -109,7 +327,7 @@ export function sortByOldest(items: WishlistItem[]): WishlistItem[] {
 /**
  * Sort wishlist items alphabetically by product title
  */
-export function sortByTitle(items: WishlistItem[]): WishlistItem[] {
+export function sortByTitle<T extends WishlistItem>(items: T[]): T[] {
   return [...items].sort((a, b) => {
     return a.productTitle.localeCompare(b.productTitle);
   });
@@ -118,7 +336,7 @@ export function sortByTitle(items: WishlistItem[]): WishlistItem[] {
 /**
  * Sort wishlist items by price (low to high)
  */
-export function sortByPriceLowToHigh(items: WishlistItem[]): WishlistItem[] {
+export function sortByPriceLowToHigh<T extends WishlistItem>(items: T[]): T[] {
   return [...items].sort((a, b) => {
     const priceA = a.price ? parseFloat(a.price.amount) : Infinity;
     const priceB = b.price ? parseFloat(b.price.amount) : Infinity;
@@ -129,7 +347,7 @@ export function sortByPriceLowToHigh(items: WishlistItem[]): WishlistItem[] {
 /**
  * Sort wishlist items by price (high to low)
  */
-export function sortByPriceHighToLow(items: WishlistItem[]): WishlistItem[] {
+export function sortByPriceHighToLow<T extends WishlistItem>(items: T[]): T[] {
   return [...items].sort((a, b) => {
     const priceA = a.price ? parseFloat(a.price.amount) : 0;
     const priceB = b.price ? parseFloat(b.price.amount) : 0;
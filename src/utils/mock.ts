@@ -0,0 +1,460 @@
+/**
+ * In-memory WishBridge backend
+ *
+ * Implements the `/api/v1/*` contract from `types.ts` without a network,
+ * for local development and tests. Pass its `fetch` as `config.fetch`.
+ */
+
+import { API_ENDPOINTS } from './constants.js';
+import { diffWishlists } from './delta.js';
+import {
+  applyOperations,
+  createItemKey,
+  mergeTombstones,
+  mergeWishlistsWithReport,
+  pruneTombstones,
+  recordTombstones,
+} from './merge.js';
+import {
+  isValidMergeStrategy,
+  isValidWishlistTombstone,
+  parseUpdateOperations,
+} from './validation.js';
+
+import type {
+  AnalyticsEventRequest,
+  CreateShareLinkRequest,
+  GetShareLinkResponse,
+  SyncWishlistRequest,
+  WishBridgeEndpoint,
+  WishlistDelta,
+  WishlistItem,
+  WishlistItemRef,
+  WishlistTombstone,
+} from '../types.js';
+
+/**
+ * Scripted failure for the next matching request(s)
+ */
+export type MockFailure = (
+  | {
+      /**
+       * Respond with an HTTP error status
+       */
+      type: 'status';
+      status: number;
+      /**
+       * Retry-After header value in seconds
+       */
+      retryAfter?: number;
+      error?: string;
+    }
+  | {
+      /**
+       * Never respond; the request only settles when aborted
+       */
+      type: 'timeout';
+    }
+  | {
+      /**
+       * Reject like a dropped connection
+       */
+      type: 'network';
+    }
+) & {
+  /**
+   * Only fail requests to this endpoint
+   */
+  endpoint?: WishBridgeEndpoint;
+
+  /**
+   * Number of requests to fail
+   * @default 1
+   */
+  times?: number;
+};
+
+/**
+ * Request received by the mock backend
+ */
+export interface MockRequestRecord {
+  endpoint: WishBridgeEndpoint;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+export interface MockWishBridgeOptions {
+  /**
+   * Initial wishlist items by customer ID
+   */
+  items?: Record<string, WishlistItem[]>;
+
+  /**
+   * Require this API key as a Bearer token
+   */
+  apiKey?: string;
+
+  /**
+   * Artificial latency in milliseconds
+   * @default 0
+   */
+  latencyMs?: number;
+}
+
+export interface MockWishBridge {
+  /**
+   * Fetch implementation serving the WishBridge endpoints
+   */
+  fetch: typeof fetch;
+
+  /**
+   * Current items for a customer
+   */
+  getItems: (customerId: string) => WishlistItem[];
+
+  /**
+   * Replace the items for a customer
+   */
+  setItems: (customerId: string, items: WishlistItem[]) => void;
+
+  /**
+   * Tombstones for items a customer removed
+   */
+  getTombstones: (customerId: string) => WishlistTombstone[];
+
+  /**
+   * Fail the next matching request(s)
+   */
+  failNext: (failure: MockFailure) => void;
+
+  /**
+   * Look up a share link created through `/api/v1/share`
+   */
+  getShare: (token: string) => GetShareLinkResponse;
+
+  /**
+   * Analytics events received
+   */
+  readonly events: Array<AnalyticsEventRequest & { customerId?: string }>;
+
+  /**
+   * Every request received, in order
+   */
+  readonly requests: MockRequestRecord[];
+
+  /**
+   * Clear all items, events, requests, shares and scripted failures
+   */
+  reset: () => void;
+}
+
+interface ChangeLog {
+  /**
+   * Changes before this time aren't recorded
+   */
+  startedAt: string;
+  changes: Map<string, { ref: WishlistItemRef; changedAt: string }>;
+}
+
+interface ShareRecord {
+  customerId: string;
+  customerName?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function toHeaderRecord(headers: HeadersInit | undefined): Record<string, string> {
+  const record: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    record[key] = value;
+  });
+  return record;
+}
+
+function resolveEndpoint(url: string): WishBridgeEndpoint | undefined {
+  const { pathname } = new URL(url, 'http://localhost');
+  const entry = Object.entries(API_ENDPOINTS).find(([, path]) => pathname.endsWith(path));
+  return entry?.[0] as WishBridgeEndpoint | undefined;
+}
+
+function waitForAbort(signal: AbortSignal | null | undefined): Promise<never> {
+  return new Promise((_resolve, reject) => {
+    const abort = () => reject(new DOMException('The operation was aborted.', 'AbortError'));
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+/**
+ * Create an in-memory WishBridge backend
+ *
+ * @example
+ * ```ts
+ * const backend = createMockWishBridge({
+ *   items: { 'gid://shopify/Customer/1': [savedItem] },
+ * });
+ *
+ * const client = new WishBridgeClient({
+ *   apiUrl: 'https://wishbridge.test',
+ *   shopDomain: 'my-store.myshopify.com',
+ *   apiKey: 'wb_test',
+ *   customerId: 'gid://shopify/Customer/1',
+ *   fetch: backend.fetch,
+ * });
+ *
+ * backend.failNext({ type: 'status', status: 429, retryAfter: 1 });
+ * ```
+ */
+export function createMockWishBridge(options: MockWishBridgeOptions = {}): MockWishBridge {
+  const { apiKey, latencyMs = 0 } = options;
+
+  let wishlists = new Map<string, WishlistItem[]>(Object.entries(options.items ?? {}));
+  let changeLogs = new Map<string, ChangeLog>();
+  let tombstones = new Map<string, WishlistTombstone[]>();
+  let shares = new Map<string, ShareRecord>();
+  let failures: MockFailure[] = [];
+  const events: Array<AnalyticsEventRequest & { customerId?: string }> = [];
+  const requests: MockRequestRecord[] = [];
+  let shareCounter = 0;
+
+  const getItems = (customerId: string): WishlistItem[] => wishlists.get(customerId) ?? [];
+  const getTombstones = (customerId: string): WishlistTombstone[] =>
+    pruneTombstones(tombstones.get(customerId) ?? []);
+
+  // Save a list and record which items changed, for delta syncs
+  const saveItems = (customerId: string, items: WishlistItem[]) => {
+    const now = new Date().toISOString();
+    const log = changeLogs.get(customerId) ?? { startedAt: now, changes: new Map() };
+    const { added, removed } = diffWishlists(getItems(customerId), items);
+    [...added, ...removed].forEach(({ productId, variantId }) => {
+      log.changes.set(createItemKey({ productId, variantId }), {
+        ref: { productId, variantId },
+        changedAt: now,
+      });
+    });
+    changeLogs.set(customerId, log);
+    wishlists.set(customerId, items);
+  };
+
+  // Changes since a watermark, or undefined if the log doesn't reach back that far
+  const getChanges = (customerId: string, since: string): WishlistDelta | undefined => {
+    const log = changeLogs.get(customerId);
+    if (!log || since < log.startedAt) return undefined;
+
+    const current = new Map(getItems(customerId).map((item) => [createItemKey(item), item]));
+    const delta: WishlistDelta = { added: [], removed: [] };
+    for (const [key, { ref, changedAt }] of log.changes) {
+      // Equal timestamps are included; re-applying a change is harmless
+      if (changedAt < since) continue;
+      const item = current.get(key);
+      if (item) {
+        delta.added.push(item);
+      } else {
+        delta.removed.push(ref);
+      }
+    }
+    return delta;
+  };
+
+  const takeFailure = (endpoint: WishBridgeEndpoint): MockFailure | undefined => {
+    const index = failures.findIndex((f) => !f.endpoint || f.endpoint === endpoint);
+    const failure = failures[index];
+    if (!failure) return undefined;
+
+    const remaining = (failure.times ?? 1) - 1;
+    if (remaining > 0) {
+      failures[index] = { ...failure, times: remaining };
+    } else {
+      failures.splice(index, 1);
+    }
+    return failure;
+  };
+
+  const handle = (
+    endpoint: WishBridgeEndpoint,
+    body: Record<string, unknown>,
+    origin: string,
+  ): Response => {
+    const customerId = typeof body['customerId'] === 'string' ? body['customerId'] : undefined;
+
+    if (endpoint === 'event') {
+      const event = body as unknown as AnalyticsEventRequest;
+      if (!event.event || !event.productId) {
+        return json({ success: false, error: 'Invalid event' }, 400);
+      }
+      events.push({
+        event: event.event,
+        productId: event.productId,
+        variantId: event.variantId,
+        customerId,
+      });
+      return json({ success: true });
+    }
+
+    if (!customerId) {
+      return json({ success: false, error: 'Customer required' }, 401);
+    }
+
+    switch (endpoint) {
+      case 'sync': {
+        const { guestItems, guestRemoved, mergeStrategy, replace, since } =
+          body as unknown as SyncWishlistRequest;
+        if (!Array.isArray(guestItems)) {
+          return json({ success: false, error: 'guestItems must be an array' }, 400);
+        }
+        const removed = mergeTombstones(
+          getTombstones(customerId),
+          pruneTombstones(
+            Array.isArray(guestRemoved) ? guestRemoved.filter(isValidWishlistTombstone) : [],
+          ),
+        );
+        const { items: merged, report } = mergeWishlistsWithReport(
+          guestItems,
+          getItems(customerId),
+          {
+            tombstones: removed,
+            strategy: isValidMergeStrategy(mergeStrategy) ? mergeStrategy : 'union',
+            replace: replace === true,
+          },
+        );
+        tombstones.set(customerId, removed);
+        saveItems(customerId, merged);
+        const syncedAt = new Date().toISOString();
+
+        const changes = typeof since === 'string' ? getChanges(customerId, since) : undefined;
+        return json(
+          changes
+            ? { success: true, changes, syncedAt, report }
+            : { success: true, items: merged, syncedAt, report },
+        );
+      }
+
+      case 'update': {
+        const operations = parseUpdateOperations(body);
+        if (!operations) {
+          return json({ success: false, error: 'Invalid operation' }, 400);
+        }
+
+        const items = applyOperations(getItems(customerId), operations);
+        tombstones.set(customerId, recordTombstones(getTombstones(customerId), operations));
+        saveItems(customerId, items);
+        return json({ success: true, items });
+      }
+
+      case 'share': {
+        const { customerName, expiresInDays = 30 } = body as CreateShareLinkRequest;
+        const token = `mock_share_${++shareCounter}`;
+        const createdAt = new Date();
+        const expiresAt = new Date(createdAt.getTime() + expiresInDays * DAY_MS).toISOString();
+        shares.set(token, {
+          customerId,
+          customerName,
+          createdAt: createdAt.toISOString(),
+          expiresAt,
+        });
+        return json({
+          success: true,
+          token,
+          url: `${origin}/wishlist/shared/${token}`,
+          expiresAt,
+        });
+      }
+
+      default:
+        return json({ success: false, error: 'Not found' }, 404);
+    }
+  };
+
+  const mockFetch = async (
+    input: RequestInfo | URL,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const endpoint = resolveEndpoint(url);
+
+    if (latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latencyMs));
+    }
+
+    if (!endpoint) {
+      return json({ success: false, error: 'Not found' }, 404);
+    }
+
+    const headers = toHeaderRecord(init?.headers);
+    let body: Record<string, unknown> = {};
+    try {
+      body = init?.body ? JSON.parse(String(init.body)) : {};
+    } catch {
+      return json({ success: false, error: 'Invalid JSON' }, 400);
+    }
+    requests.push({ endpoint, headers, body });
+
+    const failure = takeFailure(endpoint);
+    if (failure?.type === 'network') {
+      throw new TypeError('Failed to fetch');
+    }
+    if (failure?.type === 'timeout') {
+      return waitForAbort(init?.signal);
+    }
+    if (failure?.type === 'status') {
+      return json(
+        { success: false, error: failure.error ?? `Mock error ${failure.status}` },
+        failure.status,
+        failure.retryAfter !== undefined ? { 'Retry-After': String(failure.retryAfter) } : {},
+      );
+    }
+
+    if (apiKey && headers['authorization'] !== `Bearer ${apiKey}`) {
+      return json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    return handle(endpoint, body, new URL(url, 'http://localhost').origin);
+  };
+
+  return {
+    fetch: mockFetch as typeof fetch,
+    getItems,
+    setItems: (customerId, items) => {
+      saveItems(customerId, items);
+    },
+    getTombstones,
+    failNext: (failure) => {
+      failures.push(failure);
+    },
+    getShare: (token) => {
+      const share = shares.get(token);
+      if (!share || new Date(share.expiresAt) < new Date()) {
+        return { success: false, error: 'Share link not found' };
+      }
+      return {
+        success: true,
+        items: getItems(share.customerId),
+        customerName: share.customerName,
+        createdAt: share.createdAt,
+      };
+    },
+    events,
+    requests,
+    reset: () => {
+      wishlists = new Map();
+      changeLogs = new Map();
+      tombstones = new Map();
+      shares = new Map();
+      failures = [];
+      events.length = 0;
+      requests.length = 0;
+    },
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Price change detection for wishlist items
+ *
+ * Compares the price saved when an item was added with current pricing
+ * from the Storefront API.
+ */
+
+import { createItemKey, sortByNewest } from './merge.js';
+import { getLiveProductId } from './products.js';
+
+import type { LiveProductMap } from './products.js';
+import type { LiveProductData, PriceChange, WishlistItem } from '../types.js';
+
+/**
+ * Compare an item's saved price with live data.
+ * Returns undefined when either price is missing, the currencies differ
+ * or the price hasn't changed.
+ */
+export function getPriceChange(
+  item: WishlistItem,
+  live: LiveProductData | null | undefined,
+): PriceChange | undefined {
+  const saved = item.price;
+  const current = live?.price;
+
+  if (!saved || !current || saved.currencyCode !== current.currencyCode) {
+    return undefined;
+  }
+
+  const savedAmount = parseFloat(saved.amount);
+  const currentAmount = parseFloat(current.amount);
+
+  if (!Number.isFinite(savedAmount) || !Number.isFinite(currentAmount) || savedAmount <= 0) {
+    return undefined;
+  }
+
+  if (savedAmount === currentAmount) {
+    return undefined;
+  }
+
+  const amountChange = currentAmount - savedAmount;
+
+  return {
+    productId: item.productId,
+    variantId: item.variantId,
+    savedPrice: saved,
+    currentPrice: current,
+    amountChange,
+    percentChange: (amountChange / savedAmount) * 100,
+  };
+}
+
+/**
+ * Price changes for every item whose current price differs from the saved one
+ */
+export function getPriceChanges(
+  items: WishlistItem[],
+  liveProducts: LiveProductMap,
+): PriceChange[] {
+  return items.flatMap((item) => {
+    const change = getPriceChange(item, liveProducts[getLiveProductId(item)]);
+    return change ? [change] : [];
+  });
+}
+
+/**
+ * Whether a price change is a drop
+ */
+export function isPriceDrop(change: PriceChange | undefined): change is PriceChange {
+  return !!change && change.amountChange < 0;
+}
+
+/**
+ * Index price changes by item key for lookups while rendering
+ */
+export function indexPriceChanges(changes: PriceChange[]): Map<string, PriceChange> {
+  return new Map(changes.map((change) => [createItemKey(change), change]));
+}
+
+/**
+ * Sort items with the largest price drop (by percent) first.
+ * Items without a drop follow, newest first.
+ */
+export function sortByPriceDrop<T extends WishlistItem>(
+  items: T[],
+  priceChanges: PriceChange[],
+): T[] {
+  const changes = indexPriceChanges(priceChanges);
+  const dropOf = (item: T): number => {
+    const change = changes.get(createItemKey(item));
+    return isPriceDrop(change) ? change.percentChange : 0;
+  };
+
+  return sortByNewest(items).sort((a, b) => dropOf(a) - dropOf(b));
+}
@@ -0,0 +1,350 @@
+/**
+ * Live product data for wishlist items
+ *
+ * Saved items keep the title, image and price from when they were added.
+ * These helpers fetch current data through the Storefront API `nodes`
+ * query, cache it for the browser session and overlay it onto items.
+ */
+
+import {
+  LIVE_PRODUCT_CACHE_TTL_MS,
+  STORAGE_KEYS,
+  STOREFRONT_NODES_LIMIT,
+} from './constants.js';
+import { queryStorefront } from './storefront.js';
+
+import type {
+  HydratedWishlistItem,
+  LiveProductData,
+  WishBridgeConfig,
+  WishlistItem,
+  WishlistItemRef,
+} from '../types.js';
+
+/**
+ * Live data by Storefront ID. `null` means the product or variant
+ * no longer exists.
+ */
+export type LiveProductMap = Record<string, LiveProductData | null>;
+
+/**
+ * Build the Storefront API query for current product and variant data,
+ * priced for the buyer's `country` and `language`.
+ * `quantityAvailable` needs the `unauthenticated_read_product_inventory`
+ * scope, so it is only requested when `trackInventory` is set.
+ */
+export function getProductNodesQuery(trackInventory = false): string {
+  return `#graphql
+  query WishBridgeProductNodes($ids: [ID!]!, $country: CountryCode, $language: LanguageCode)
+  @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      ... on Product {
+        __typename
+        id
+        title
+        handle
+        availableForSale
+        featuredImage {
+          url
+          altText
+        }
+        priceRange {
+          minVariantPrice {
+            amount
+            currencyCode
+          }
+        }
+      }
+      ... on ProductVariant {
+        __typename
+        id
+        title
+        availableForSale${trackInventory ? '\n        quantityAvailable' : ''}
+        image {
+          url
+          altText
+        }
+        price {
+          amount
+          currencyCode
+        }
+        product {
+          title
+          handle
+          featuredImage {
+            url
+            altText
+          }
+        }
+      }
+    }
+  }
+`;
+}
+
+/**
+ * Storefront API query for current product and variant data
+ */
+export const PRODUCT_NODES_QUERY = getProductNodesQuery();
+
+interface StorefrontImage {
+  url: string;
+  altText?: string | null;
+}
+
+interface StorefrontMoney {
+  amount: string;
+  currencyCode: string;
+}
+
+type ProductNode =
+  | {
+      __typename: 'Product';
+      id: string;
+      title: string;
+      handle: string;
+      availableForSale: boolean;
+      featuredImage?: StorefrontImage | null;
+      priceRange?: { minVariantPrice: StorefrontMoney } | null;
+    }
+  | {
+      __typename: 'ProductVariant';
+      id: string;
+      title: string;
+      availableForSale: boolean;
+      quantityAvailable?: number | null;
+      image?: StorefrontImage | null;
+      price?: StorefrontMoney | null;
+      product: {
+        title: string;
+        handle: string;
+        featuredImage?: StorefrontImage | null;
+      };
+    };
+
+/**
+ * Response of the product nodes query
+ */
+export interface ProductNodesQueryData {
+  nodes: Array<ProductNode | null>;
+}
+
+interface CachedLiveProduct {
+  data: LiveProductData | null;
+  fetchedAt: number;
+}
+
+const GID_PREFIX = 'gid://shopify/';
+
+/**
+ * Storefront ID to look up for an item: the variant when set, else the product
+ */
+export function getLiveProductId(item: WishlistItemRef): string {
+  return item.variantId ?? item.productId;
+}
+
+/**
+ * Whether live product data can be fetched with this config
+ */
+export function canHydrateProducts(config: WishBridgeConfig): boolean {
+  return Boolean(config.storefrontAccessToken) && config.hydrateProducts !== false;
+}
+
+function toImage(image: StorefrontImage | null | undefined): LiveProductData['image'] {
+  return image ? { url: image.url, altText: image.altText ?? undefined } : undefined;
+}
+
+function toMoney(money: StorefrontMoney | null | undefined): LiveProductData['price'] {
+  return money ? { amount: money.amount, currencyCode: money.currencyCode } : undefined;
+}
+
+function parseProductNode(node: ProductNode): LiveProductData {
+  if (node.__typename === 'ProductVariant') {
+    return {
+      productTitle: node.product.title,
+      productHandle: node.product.handle,
+      // Single-variant products report "Default Title"
+      variantTitle: node.title === 'Default Title' ? null : node.title,
+      image: toImage(node.image ?? node.product.featuredImage),
+      price: toMoney(node.price),
+      availableForSale: node.availableForSale,
+      ...(node.quantityAvailable != null && { quantityAvailable: node.quantityAvailable }),
+    };
+  }
+
+  return {
+    productTitle: node.title,
+    productHandle: node.handle,
+    image: toImage(node.featuredImage),
+    price: toMoney(node.priceRange?.minVariantPrice),
+    availableForSale: node.availableForSale,
+  };
+}
+
+/**
+ * Fetch live data for Storefront IDs in batches of `STOREFRONT_NODES_LIMIT`.
+ * IDs that aren't Shopify GIDs are skipped.
+ * Rejects with a `WishBridgeError` when a request fails.
+ */
+export async function fetchLiveProducts(
+  config: WishBridgeConfig,
+  ids: string[],
+  signal?: AbortSignal,
+): Promise<LiveProductMap> {
+  const gids = [...new Set(ids)].filter((id) => id.startsWith(GID_PREFIX));
+  const result: LiveProductMap = {};
+
+  for (let start = 0; start < gids.length; start += STOREFRONT_NODES_LIMIT) {
+    const batch = gids.slice(start, start + STOREFRONT_NODES_LIMIT);
+    const data = await queryStorefront<ProductNodesQueryData>(
+      config,
+      getProductNodesQuery(config.trackInventory),
+      { ids: batch, country: config.country, language: config.language },
+      signal,
+    );
+
+    Object.assign(result, parseProductNodes(batch, data));
+  }
+
+  return result;
+}
+
+/**
+ * Map a product nodes query response back to the requested IDs
+ */
+export function parseProductNodes(ids: string[], data: ProductNodesQueryData): LiveProductMap {
+  const result: LiveProductMap = {};
+
+  // `nodes` returns results in request order, with null for deleted IDs
+  ids.forEach((id, index) => {
+    const node = data.nodes[index];
+    result[id] = node ? parseProductNode(node) : null;
+  });
+
+  return result;
+}
+
+// Prices depend on the shop and market, so cache entries are keyed by both
+function getCacheKey(config: WishBridgeConfig, id: string): string {
+  return [config.shopDomain, config.country ?? '', config.language ?? '', id].join('|');
+}
+
+function isSessionStorageAvailable(): boolean {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+
+  try {
+    return Boolean(window.sessionStorage);
+  } catch {
+    return false;
+  }
+}
+
+function readCache(): Record<string, CachedLiveProduct> {
+  if (!isSessionStorageAvailable()) {
+    return {};
+  }
+
+  try {
+    const stored = window.sessionStorage.getItem(STORAGE_KEYS.liveProducts);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeCache(cache: Record<string, CachedLiveProduct>): void {
+  if (!isSessionStorageAvailable()) {
+    return;
+  }
+
+  try {
+    window.sessionStorage.setItem(STORAGE_KEYS.liveProducts, JSON.stringify(cache));
+  } catch {
+    console.warn('WishBridge: Failed to cache live product data in sessionStorage');
+  }
+}
+
+/**
+ * Get live data for Storefront IDs, serving fresh entries from the
+ * session cache and fetching the rest
+ */
+export async function loadLiveProducts(
+  config: WishBridgeConfig,
+  ids: string[],
+  signal?: AbortSignal,
+): Promise<LiveProductMap> {
+  const now = Date.now();
+  const cache = readCache();
+  const result: LiveProductMap = {};
+  const missing: string[] = [];
+
+  for (const id of ids) {
+    const cached = cache[getCacheKey(config, id)];
+    if (cached && now - cached.fetchedAt < LIVE_PRODUCT_CACHE_TTL_MS) {
+      result[id] = cached.data;
+    } else {
+      missing.push(id);
+    }
+  }
+
+  if (missing.length === 0) {
+    return result;
+  }
+
+  const fetched = await fetchLiveProducts(config, missing, signal);
+
+  const updated = readCache();
+  for (const [id, data] of Object.entries(fetched)) {
+    result[id] = data;
+    updated[getCacheKey(config, id)] = { data, fetchedAt: now };
+  }
+  writeCache(updated);
+
+  return result;
+}
+
+/**
+ * Clear cached live product data
+ */
+export function clearLiveProductCache(): void {
+  if (!isSessionStorageAvailable()) {
+    return;
+  }
+
+  try {
+    window.sessionStorage.removeItem(STORAGE_KEYS.liveProducts);
+  } catch {
+    // Ignore errors
+  }
+}
+
+/**
+ * Overlay live data onto a saved item.
+ * `undefined` leaves the item as saved; `null` flags it as deleted.
+ */
+export function overlayLiveProduct(
+  item: WishlistItem,
+  live: LiveProductData | null | undefined,
+): HydratedWishlistItem {
+  if (live === undefined) {
+    return item;
+  }
+
+  if (live === null) {
+    return { ...item, isDeleted: true, availableForSale: false };
+  }
+
+  return {
+    ...item,
+    productTitle: live.productTitle,
+    productHandle: live.productHandle,
+    variantTitle: item.variantId ? (live.variantTitle ?? item.variantTitle) : item.variantTitle,
+    image: live.image ?? item.image,
+    price: live.price ?? item.price,
+    availableForSale: live.availableForSale,
+    quantityAvailable: live.quantityAvailable,
+  };
+}
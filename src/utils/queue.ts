@@ -0,0 +1,142 @@
+/**
+ * Offline mutation queue for customer wishlists
+ *
+ * Add/remove operations that could not reach the backend are persisted
+ * to the `WishlistStorageAdapter` passed in and replayed in order once
+ * the network is back.
+ */
+
+import { STORAGE_KEYS } from './constants.js';
+import { createItemKey } from './merge.js';
+import { runExclusive } from './storage.js';
+
+import type { PendingOperation, WishlistStorageAdapter } from '../types.js';
+
+/**
+ * Validate pending operation structure
+ */
+function isValidPendingOperation(op: unknown): op is PendingOperation {
+  if (!op || typeof op !== 'object') {
+    return false;
+  }
+
+  const obj = op as Record<string, unknown>;
+  const item = obj['item'] as Record<string, unknown> | undefined;
+
+  return (
+    (obj['action'] === 'add' || obj['action'] === 'remove') &&
+    typeof obj['customerId'] === 'string' &&
+    typeof obj['queuedAt'] === 'string' &&
+    !!item &&
+    typeof item['productId'] === 'string'
+  );
+}
+
+/**
+ * Get all queued operations, oldest first
+ */
+async function readQueue(adapter: WishlistStorageAdapter): Promise<PendingOperation[]> {
+  try {
+    const stored = await adapter.getItem(STORAGE_KEYS.pendingOperations);
+    if (!stored) {
+      return [];
+    }
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+
+    return parsed.filter(isValidPendingOperation);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Persist the queue
+ */
+async function writeQueue(
+  adapter: WishlistStorageAdapter,
+  queue: PendingOperation[],
+): Promise<void> {
+  try {
+    if (queue.length === 0) {
+      await adapter.removeItem(STORAGE_KEYS.pendingOperations);
+    } else {
+      await adapter.setItem(STORAGE_KEYS.pendingOperations, JSON.stringify(queue));
+    }
+  } catch {
+    console.warn('WishBridge: Failed to save pending operations');
+  }
+}
+
+/**
+ * Whether two operations target the same customer and item
+ */
+function isSameTarget(a: PendingOperation, b: PendingOperation): boolean {
+  return (
+    a.customerId === b.customerId &&
+    createItemKey(a.item) === createItemKey(b.item)
+  );
+}
+
+/**
+ * Get queued operations for a customer, oldest first
+ */
+export function getPendingOperations(
+  customerId: string,
+  adapter: WishlistStorageAdapter,
+): Promise<PendingOperation[]> {
+  return runExclusive(adapter, async () =>
+    (await readQueue(adapter)).filter((op) => op.customerId === customerId),
+  );
+}
+
+/**
+ * Queue an operation. An earlier operation on the same item is replaced,
+ * since only the latest intent matters.
+ */
+export function enqueueOperation(
+  operation: PendingOperation,
+  adapter: WishlistStorageAdapter,
+): Promise<PendingOperation[]> {
+  return runExclusive(adapter, async () => {
+    const queue = (await readQueue(adapter)).filter((op) => !isSameTarget(op, operation));
+    queue.push(operation);
+    await writeQueue(adapter, queue);
+    return queue.filter((op) => op.customerId === operation.customerId);
+  });
+}
+
+/**
+ * Remove an operation once it has been sent.
+ * A newer operation on the same item is left in place.
+ */
+export function removePendingOperation(
+  operation: PendingOperation,
+  adapter: WishlistStorageAdapter,
+): Promise<PendingOperation[]> {
+  return runExclusive(adapter, async () => {
+    const queue = (await readQueue(adapter)).filter(
+      (op) => !(isSameTarget(op, operation) && op.queuedAt === operation.queuedAt),
+    );
+    await writeQueue(adapter, queue);
+    return queue.filter((op) => op.customerId === operation.customerId);
+  });
+}
+
+/**
+ * Clear queued operations for a customer
+ */
+export function clearPendingOperations(
+  customerId: string,
+  adapter: WishlistStorageAdapter,
+): Promise<void> {
+  return runExclusive(adapter, async () => {
+    await writeQueue(
+      adapter,
+      (await readQueue(adapter)).filter((op) => op.customerId !== customerId),
+    );
+  });
+}
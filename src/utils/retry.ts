@@ -0,0 +1,134 @@
+/**
+ * Retry utilities for WishBridge requests
+ */
+
+import { DEFAULT_RETRY_POLICY } from './constants.js';
+
+import type { WishBridgeError } from './errors.js';
+import type { RetryPolicy } from '../types.js';
+
+/**
+ * Retry policy with defaults applied
+ */
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+/**
+ * Resolve a retry policy from config, applying defaults.
+ * `false` disables retries (a single attempt).
+ */
+export function resolveRetryPolicy(
+  policy: RetryPolicy | false | undefined,
+): ResolvedRetryPolicy {
+  if (policy === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...policy,
+    maxAttempts: Math.max(1, policy?.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts),
+  };
+}
+
+/**
+ * Whether a failed request may be retried
+ */
+export function isRetryableError(error: WishBridgeError): boolean {
+  switch (error.code) {
+    case 'network':
+    case 'timeout':
+    case 'rate_limited':
+      return true;
+    case 'request_failed':
+    case 'invalid_response':
+      return error.status !== undefined && error.status >= 500;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Compute the delay before the next attempt.
+ * `attempt` is the 1-based number of the attempt that just failed.
+ */
+export function computeRetryDelay(
+  attempt: number,
+  policy: ResolvedRetryPolicy,
+  random: () => number = Math.random,
+): number {
+  let delay: number;
+
+  switch (policy.backoff) {
+    case 'constant':
+      delay = policy.baseDelayMs;
+      break;
+    case 'linear':
+      delay = policy.baseDelayMs * attempt;
+      break;
+    case 'exponential':
+    default:
+      delay = policy.baseDelayMs * 2 ** (attempt - 1);
+      break;
+  }
+
+  delay = Math.min(delay, policy.maxDelayMs);
+
+  switch (policy.jitter) {
+    case 'full':
+      return Math.round(random() * delay);
+    case 'equal':
+      return Math.round(delay / 2 + random() * (delay / 2));
+    case 'none':
+    default:
+      return delay;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  header: string | null | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const trimmed = header.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now);
+}
+
+/**
+ * Wait for the given delay, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Aborted'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,117 @@
+/**
+ * Stored wishlist schema and migrations
+ *
+ * Wishlists are stored as `{ version, items, updatedAt }`. Payloads written
+ * by older versions are upgraded on read, one version at a time, instead of
+ * being dropped by validation.
+ *
+ * Versions:
+ * - 1: bare `WishlistItem[]` array (before the envelope existed)
+ * - 2: `{ version: 2, items, updatedAt }`, with optional `removed` tombstones
+ */
+
+import { WISHLIST_SCHEMA_VERSION } from './constants.js';
+import { isValidWishlistItem, isValidWishlistTombstone } from './validation.js';
+
+import type { WishlistEnvelope, WishlistItem, WishlistTombstone } from '../types.js';
+
+/**
+ * Upgrade a payload from one version to the next
+ */
+export type WishlistMigration = (payload: unknown) => unknown;
+
+/**
+ * Migrations by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, WishlistMigration> = {
+  1: (payload) => ({
+    version: 2,
+    items: Array.isArray(payload) ? payload : [],
+    updatedAt: new Date(0).toISOString(),
+  }),
+};
+
+/**
+ * Wrap items and tombstones in a current-version envelope
+ */
+export function createWishlistEnvelope(
+  items: WishlistItem[],
+  updatedAt: string = new Date().toISOString(),
+  removed: WishlistTombstone[] = [],
+): WishlistEnvelope {
+  return {
+    version: WISHLIST_SCHEMA_VERSION,
+    items,
+    updatedAt,
+    ...(removed.length > 0 && { removed }),
+  };
+}
+
+/**
+ * Schema version of a stored payload, or undefined if it isn't one
+ */
+export function getPayloadVersion(payload: unknown): number | undefined {
+  if (Array.isArray(payload)) {
+    return 1;
+  }
+
+  if (payload && typeof payload === 'object') {
+    const version = (payload as Record<string, unknown>)['version'];
+    if (typeof version === 'number' && Number.isInteger(version) && version > 0) {
+      return version;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Upgrade a stored payload to the current envelope and validate its items.
+ * Payloads from newer versions are read as-is, keeping any valid items.
+ * Returns undefined for payloads that can't be read at all.
+ */
+export function migrateWishlistPayload(payload: unknown): WishlistEnvelope | undefined {
+  let version = getPayloadVersion(payload);
+  let current = payload;
+
+  while (version !== undefined && version < WISHLIST_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      return undefined;
+    }
+
+    current = migrate(current);
+    version = getPayloadVersion(current);
+  }
+
+  if (version === undefined || !current || typeof current !== 'object') {
+    return undefined;
+  }
+
+  const envelope = current as Record<string, unknown>;
+  const items = Array.isArray(envelope['items']) ? envelope['items'] : [];
+  const removed = Array.isArray(envelope['removed'])
+    ? (envelope['removed'].filter(isValidWishlistTombstone) as WishlistTombstone[])
+    : [];
+
+  return createWishlistEnvelope(
+    items.filter(isValidWishlistItem) as WishlistItem[],
+    typeof envelope['updatedAt'] === 'string' ? envelope['updatedAt'] : '',
+    removed,
+  );
+}
+
+/**
+ * Parse a stored JSON payload into items, migrating older versions
+ */
+export function parseWishlistPayload(value: string | null | undefined): WishlistItem[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    return migrateWishlistPayload(JSON.parse(value))?.items ?? [];
+  } catch {
+    return [];
+  }
+}
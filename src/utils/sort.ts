@@ -0,0 +1,39 @@
+/**
+ * Sorting for wishlist item lists
+ */
+
+import {
+  sortByNewest,
+  sortByOldest,
+  sortByPriceHighToLow,
+  sortByPriceLowToHigh,
+  sortByTitle,
+} from './merge.js';
+import { sortByPriceDrop } from './prices.js';
+
+import type { PriceChange, SortOption, WishlistItem } from '../types.js';
+
+/**
+ * Sort items by a `SortOption`
+ */
+export function sortWishlistItems<T extends WishlistItem>(
+  items: T[],
+  sortBy: SortOption,
+  priceChanges: PriceChange[] = [],
+): T[] {
+  switch (sortBy) {
+    case 'oldest':
+      return sortByOldest(items);
+    case 'title':
+      return sortByTitle(items);
+    case 'price-low':
+      return sortByPriceLowToHigh(items);
+    case 'price-high':
+      return sortByPriceHighToLow(items);
+    case 'price-drop':
+      return sortByPriceDrop(items, priceChanges);
+    case 'newest':
+    default:
+      return sortByNewest(items);
+  }
+}
@@ -1,158 +1,408 @@
 /**
- * localStorage adapter for guest wishlist
+ * Guest wishlist storage
+ *
+ * Reads and writes go through the `WishlistStorageAdapter` passed in,
+ * usually scoped with `createScopedStorageAdapter` like the provider's.
+ * Calls on the same adapter run one at a time, so quick add/remove
+ * sequences don't overwrite each other.
+ * Optional `GuestWishlistLimits` cap the list size, expire old items and
+ * decide what to evict when the list or the storage is full.
+ * Removed items are kept as tombstones next to the list until they
+ * expire, so the login merge can leave them out.
+ * The customer's list as of their last sync is kept with its timestamp,
+ * so the next visit only has to fetch later changes.
  */
 
-import { STORAGE_KEYS } from './constants.js';
-import { isValidWishlistItem } from './validation.js';
+import { DEFAULT_ERROR_MESSAGES, STORAGE_KEYS } from './constants.js';
+import { WishBridgeError } from './errors.js';
+import { pruneTombstones, recordTombstones } from './merge.js';
+import { createWishlistEnvelope, migrateWishlistPayload } from './schema.js';
 
-import type { WishlistItem } from '../types.js';
+import type {
+  GuestWishlistLimits,
+  WishlistItem,
+  WishlistStorageAdapter,
+  WishlistTombstone,
+} from '../types.js';
+
+interface SyncWatermark {
+  customerId: string;
+  syncedAt: string;
+}
+
+interface StoredWishlist {
+  items: WishlistItem[];
+  removed: WishlistTombstone[];
+}
+
+const adapterQueues = new WeakMap<WishlistStorageAdapter, Promise<unknown>>();
 
 /**
- * Check if localStorage is available
+ * Run a task after earlier tasks on the same adapter have settled.
+ * The offline queue and availability records share the same lock.
  */
-export function isStorageAvailable(): boolean {
-  if (typeof window === 'undefined') {
-    return false;
-  }
+export function runExclusive<T>(
+  adapter: WishlistStorageAdapter,
+  task: () => Promise<T>,
+): Promise<T> {
+  const result = (adapterQueues.get(adapter) ?? Promise.resolve()).then(task);
+  adapterQueues.set(
+    adapter,
+    result.catch(() => undefined),
+  );
+  return result;
+}
 
-  try {
-    const testKey = '__wishbridge_test__';
-    window.localStorage.setItem(testKey, testKey);
-    window.localStorage.removeItem(testKey);
-    return true;
-  } catch {
-    return false;
-  }
+function wishlistFull(): WishBridgeError {
+  return new WishBridgeError('wishlist_full', DEFAULT_ERROR_MESSAGES.wishlistFull);
+}
+
+function isQuotaError(err: unknown): boolean {
+  const name = (err as { name?: unknown } | null)?.name;
+  // Firefox used its own name before adopting the standard one
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
 }
 
 /**
- * Get wishlist items from localStorage
+ * Drop items added longer ago than `itemTtlMs`
  */
-export function getStoredItems(): WishlistItem[] {
-  if (!isStorageAvailable()) {
-    return [];
+export function removeExpiredItems(
+  items: WishlistItem[],
+  itemTtlMs: number | undefined,
+  now = Date.now(),
+): WishlistItem[] {
+  if (!itemTtlMs) {
+    return items;
   }
 
-  try {
-    const stored = window.localStorage.getItem(STORAGE_KEYS.wishlistItems);
-    if (!stored) {
-      return [];
-    }
-
-    const parsed = JSON.parse(stored);
-    if (!Array.isArray(parsed)) {
-      return [];
-    }
+  return items.filter((item) => {
+    const addedAt = Date.parse(item.addedAt);
+    return Number.isNaN(addedAt) || now - addedAt < itemTtlMs;
+  });
+}
 
-    // Validate each item
-    return parsed.filter(isValidWishlistItem) as WishlistItem[];
-  } catch {
-    return [];
+/**
+ * Remove the `count` oldest items, keeping the rest in order
+ */
+export function evictOldestItems(items: WishlistItem[], count: number): WishlistItem[] {
+  if (count <= 0) {
+    return items;
   }
+
+  const evicted = new Set(
+    [...items]
+      .sort((a, b) => a.addedAt.localeCompare(b.addedAt))
+      .slice(0, count),
+  );
+  return items.filter((item) => !evicted.has(item));
 }
 
 /**
- * Save wishlist items to localStorage
+ * Apply `maxItems` to a list, evicting or rejecting per the strategy
  */
-export function setStoredItems(items: WishlistItem[]): void {
-  if (!isStorageAvailable()) {
-    return;
+function capItems(items: WishlistItem[], limits: GuestWishlistLimits): WishlistItem[] {
+  const overflow = limits.maxItems !== undefined ? items.length - limits.maxItems : 0;
+  if (overflow <= 0) {
+    return items;
+  }
+
+  if ((limits.eviction ?? 'reject') === 'reject') {
+    throw wishlistFull();
   }
 
+  return evictOldestItems(items, overflow);
+}
+
+async function readWishlist(
+  adapter: WishlistStorageAdapter,
+  limits: GuestWishlistLimits,
+): Promise<StoredWishlist> {
   try {
-    window.localStorage.setItem(STORAGE_KEYS.wishlistItems, JSON.stringify(items));
+    const value = await adapter.getItem(STORAGE_KEYS.wishlistItems);
+    const envelope = value ? migrateWishlistPayload(JSON.parse(value)) : undefined;
+    return {
+      items: removeExpiredItems(envelope?.items ?? [], limits.itemTtlMs),
+      removed: pruneTombstones(envelope?.removed ?? [], limits.tombstoneTtlMs),
+    };
   } catch {
-    // Storage quota exceeded or other error
-    console.warn('WishBridge: Failed to save wishlist to localStorage');
+    return { items: [], removed: [] };
   }
 }
 
 /**
- * Clear wishlist from localStorage
+ * Save items, freeing space per the eviction strategy when storage is
+ * full. Resolves with the items that were saved.
  */
-export function clearStoredItems(): void {
-  if (!isStorageAvailable()) {
-    return;
-  }
+async function writeItems(
+  adapter: WishlistStorageAdapter,
+  items: WishlistItem[],
+  limits: GuestWishlistLimits,
+  removed: WishlistTombstone[],
+): Promise<WishlistItem[]> {
+  const eviction = limits.eviction ?? 'reject';
+  let candidate = items;
 
-  try {
-    window.localStorage.removeItem(STORAGE_KEYS.wishlistItems);
-    window.localStorage.removeItem(STORAGE_KEYS.lastSyncTimestamp);
-  } catch {
-    // Ignore errors
+  for (;;) {
+    try {
+      await adapter.setItem(
+        STORAGE_KEYS.wishlistItems,
+        JSON.stringify(createWishlistEnvelope(candidate, undefined, removed)),
+      );
+      return candidate;
+    } catch (err) {
+      if (!isQuotaError(err)) {
+        console.warn('WishBridge: Failed to save guest wishlist');
+        return candidate;
+      }
+
+      if (eviction === 'images' && candidate.some((item) => item.image)) {
+        candidate = candidate.map(({ image: _image, ...item }) => item);
+      } else if (eviction !== 'reject' && candidate.length > 1) {
+        candidate = evictOldestItems(candidate, 1);
+      } else {
+        throw wishlistFull();
+      }
+    }
   }
 }
 
 /**
- * Get last sync timestamp
+ * Check if localStorage is available
  */
-export function getLastSyncTimestamp(): string | null {
-  if (!isStorageAvailable()) {
-    return null;
+export function isStorageAvailable(): boolean {
+  if (typeof window === 'undefined') {
+    return false;
   }
 
   try {
-    return window.localStorage.getItem(STORAGE_KEYS.lastSyncTimestamp);
+    const testKey = '__wishbridge_test__';
+    window.localStorage.setItem(testKey, testKey);
+    window.localStorage.removeItem(testKey);
+    return true;
   } catch {
-    return null;
+    return false;
   }
 }
 
 /**
- * Set last sync timestamp
+ * Get guest wishlist items, leaving out expired ones.
+ * Payloads from older versions are migrated.
  */
-export function setLastSyncTimestamp(timestamp: string): void {
-  if (!isStorageAvailable()) {
-    return;
-  }
+export function getStoredItems(
+  adapter: WishlistStorageAdapter,
+  limits: GuestWishlistLimits = {},
+): Promise<WishlistItem[]> {
+  return runExclusive(adapter, async () => (await readWishlist(adapter, limits)).items);
+}
 
-  try {
-    window.localStorage.setItem(STORAGE_KEYS.lastSyncTimestamp, timestamp);
-  } catch {
-    // Ignore errors
-  }
+/**
+ * Get tombstones for items the guest removed, leaving out expired ones
+ */
+export function getStoredTombstones(
+  adapter: WishlistStorageAdapter,
+  limits: GuestWishlistLimits = {},
+): Promise<WishlistTombstone[]> {
+  return runExclusive(adapter, async () => (await readWishlist(adapter, limits)).removed);
+}
+
+/**
+ * Save guest wishlist items. Resolves with the items that were saved
+ * after eviction, and rejects with a `wishlist_full` WishBridgeError
+ * when the list can't be saved.
+ */
+export function setStoredItems(
+  items: WishlistItem[],
+  adapter: WishlistStorageAdapter,
+  limits: GuestWishlistLimits = {},
+): Promise<WishlistItem[]> {
+  return runExclusive(adapter, async () => {
+    const { removed } = await readWishlist(adapter, limits);
+    return writeItems(
+      adapter,
+      capItems(removeExpiredItems(items, limits.itemTtlMs), limits),
+      limits,
+      removed,
+    );
+  });
 }
 
 /**
- * Add item to stored wishlist
+ * Clear the guest wishlist. Sync watermarks are kept, as they belong to
+ * the customer rather than the guest list.
  */
-export function addStoredItem(item: WishlistItem): WishlistItem[] {
-  const items = getStoredItems();
+export function clearStoredItems(
+  adapter: WishlistStorageAdapter,
+): Promise<void> {
+  return runExclusive(adapter, async () => {
+    try {
+      await adapter.removeItem(STORAGE_KEYS.wishlistItems);
+    } catch {
+      // Ignore errors
+    }
+  });
+}
 
-  // Check if already exists
-  const exists = items.some(
-    (existing) =>
-      existing.productId === item.productId &&
-      existing.variantId === item.variantId,
-  );
+/**
+ * Get the timestamp of the customer's last sync in this browser
+ */
+export function getLastSyncTimestamp(
+  customerId: string,
+  adapter: WishlistStorageAdapter,
+): Promise<string | null> {
+  return runExclusive(adapter, async () => {
+    try {
+      const value = await adapter.getItem(STORAGE_KEYS.lastSyncTimestamp);
+      const watermark = value ? (JSON.parse(value) as Partial<SyncWatermark>) : undefined;
+      return watermark?.customerId === customerId && typeof watermark.syncedAt === 'string'
+        ? watermark.syncedAt
+        : null;
+    } catch {
+      return null;
+    }
+  });
+}
 
-  if (exists) {
-    return items;
-  }
+/**
+ * Set the timestamp of the customer's last sync. Save the list it
+ * describes with `setSyncedItems` first.
+ */
+export function setLastSyncTimestamp(
+  customerId: string,
+  timestamp: string,
+  adapter: WishlistStorageAdapter,
+): Promise<void> {
+  return runExclusive(adapter, async () => {
+    try {
+      const watermark: SyncWatermark = { customerId, syncedAt: timestamp };
+      await adapter.setItem(STORAGE_KEYS.lastSyncTimestamp, JSON.stringify(watermark));
+    } catch {
+      // Ignore errors
+    }
+  });
+}
 
-  const newItems = [...items, item];
-  setStoredItems(newItems);
-  return newItems;
+/**
+ * Get the customer's list as of their last sync, the base a delta sync
+ * is applied to
+ */
+export function getSyncedItems(
+  customerId: string,
+  adapter: WishlistStorageAdapter,
+): Promise<WishlistItem[] | null> {
+  return runExclusive(adapter, async () => {
+    try {
+      const value = await adapter.getItem(STORAGE_KEYS.syncedItems);
+      const stored = value
+        ? (JSON.parse(value) as { customerId?: unknown; list?: unknown })
+        : undefined;
+      if (stored?.customerId !== customerId) {
+        return null;
+      }
+      return migrateWishlistPayload(stored.list)?.items ?? null;
+    } catch {
+      return null;
+    }
+  });
 }
 
 /**
- * Remove item from stored wishlist
+ * Save the customer's list as of their last sync
  */
-export function removeStoredItem(productId: string, variantId?: string): WishlistItem[] {
-  const items = getStoredItems();
-  const newItems = items.filter(
-    (item) =>
-      !(item.productId === productId && item.variantId === variantId),
-  );
-  setStoredItems(newItems);
-  return newItems;
+export function setSyncedItems(
+  customerId: string,
+  items: WishlistItem[],
+  adapter: WishlistStorageAdapter,
+): Promise<void> {
+  return runExclusive(adapter, async () => {
+    try {
+      await adapter.setItem(
+        STORAGE_KEYS.syncedItems,
+        JSON.stringify({ customerId, list: createWishlistEnvelope(items) }),
+      );
+    } catch {
+      // A list older than the watermark saved next would make delta syncs
+      // skip changes, so drop it
+      try {
+        await adapter.removeItem(STORAGE_KEYS.syncedItems);
+      } catch {
+        // Ignore errors
+      }
+    }
+  });
+}
+
+/**
+ * Add item to stored wishlist. Resolves with the saved list, which may
+ * have had items evicted to make room, and rejects with a
+ * `wishlist_full` WishBridgeError when there is no room.
+ */
+export function addStoredItem(
+  item: WishlistItem,
+  adapter: WishlistStorageAdapter,
+  limits: GuestWishlistLimits = {},
+): Promise<WishlistItem[]> {
+  return runExclusive(adapter, async () => {
+    const { items, removed } = await readWishlist(adapter, limits);
+
+    // Check if already exists
+    const exists = items.some(
+      (existing) =>
+        existing.productId === item.productId &&
+        existing.variantId === item.variantId,
+    );
+
+    if (exists) {
+      return items;
+    }
+
+    return writeItems(
+      adapter,
+      capItems([...items, item], limits),
+      limits,
+      recordTombstones(removed, [{ action: 'add', item }]),
+    );
+  });
+}
+
+/**
+ * Remove item from stored wishlist, leaving a tombstone. When storage is
+ * too full for the tombstone, the item is removed without one.
+ */
+export function removeStoredItem(
+  productId: string,
+  variantId: string | undefined,
+  adapter: WishlistStorageAdapter,
+  limits: GuestWishlistLimits = {},
+): Promise<WishlistItem[]> {
+  return runExclusive(adapter, async () => {
+    const { items, removed } = await readWishlist(adapter, limits);
+    const newItems = items.filter(
+      (item) =>
+        !(item.productId === productId && item.variantId === variantId),
+    );
+    const tombstones = recordTombstones(removed, [
+      { action: 'remove', item: { productId, variantId } },
+    ]);
+
+    try {
+      // Never evict other items to make room for a tombstone
+      return await writeItems(adapter, newItems, { ...limits, eviction: 'reject' }, tombstones);
+    } catch (err) {
+      if (!(err instanceof WishBridgeError)) throw err;
+      return writeItems(adapter, newItems, limits, removed);
+    }
+  });
 }
 
 /**
  * Check if item is in stored wishlist
  */
-export function isItemStored(productId: string, variantId?: string): boolean {
-  const items = getStoredItems();
+export async function isItemStored(
+  productId: string,
+  variantId: string | undefined,
+  adapter: WishlistStorageAdapter,
+): Promise<boolean> {
+  const items = await getStoredItems(adapter);
   return items.some(
     (item) =>
       item.productId === productId && item.variantId === variantId,
@@ -0,0 +1,156 @@
+/**
+ * Storefront API reads for customer wishlists
+ */
+
+import {
+  DEFAULT_ERROR_MESSAGES,
+  DEFAULT_STOREFRONT_API_VERSION,
+  METAFIELD_KEY,
+  METAFIELD_NAMESPACE,
+  REQUEST_TIMEOUT_MS,
+} from './constants.js';
+import {
+  decodeWishlistMetafields,
+  decodeWishlistTombstones,
+  WISHLIST_SHARDS_SELECTION,
+} from './encoding.js';
+import { WishBridgeError } from './errors.js';
+
+import type { WishlistShardMetafield } from './encoding.js';
+import type { WishBridgeConfig, WishlistItem, WishlistTombstone } from '../types.js';
+
+/**
+ * Storefront API query for the customer's wishlist metafield
+ */
+export const CUSTOMER_WISHLIST_QUERY = `#graphql
+  query WishBridgeCustomerWishlist($customerAccessToken: String!) {
+    customer(customerAccessToken: $customerAccessToken) {
+      id
+      metafield(namespace: "${METAFIELD_NAMESPACE}", key: "${METAFIELD_KEY}") {
+        value
+      }
+      ${WISHLIST_SHARDS_SELECTION}
+    }
+  }
+`;
+
+/**
+ * Shape of the wishlist query result
+ */
+export interface CustomerWishlistQueryData {
+  customer?: {
+    id: string;
+    metafield?: { value: string } | null;
+    shards?: WishlistShardMetafield[] | null;
+  } | null;
+}
+
+/**
+ * Parse a `wishbridge.items` metafield value, plus any shards, into
+ * validated items. Invalid JSON or entries are dropped.
+ */
+export function parseWishlistMetafield(
+  value: string | null | undefined,
+  shards?: WishlistShardMetafield[] | null,
+): WishlistItem[] {
+  return decodeWishlistMetafields(value, shards);
+}
+
+/**
+ * Whether the config has what's needed to read the metafield client-side
+ */
+export function canReadCustomerWishlist(config: WishBridgeConfig): boolean {
+  return Boolean(config.customerAccessToken && config.storefrontAccessToken);
+}
+
+/**
+ * Run a Storefront API query with the public access token.
+ * Rejects with a `WishBridgeError` when the request fails or returns errors.
+ */
+export async function queryStorefront<TData>(
+  config: WishBridgeConfig,
+  query: string,
+  variables: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<TData> {
+  const version = config.storefrontApiVersion ?? DEFAULT_STOREFRONT_API_VERSION;
+  const url = `https://${config.shopDomain}/api/${version}/graphql.json`;
+  const fetchFn = config.fetch ?? globalThis.fetch;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const abortFromCaller = () => controller.abort();
+  signal?.addEventListener('abort', abortFromCaller);
+
+  let res: Response;
+  try {
+    res = await fetchFn(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Shopify-Storefront-Access-Token': config.storefrontAccessToken ?? '',
+      },
+      body: JSON.stringify({ query, variables }),
+      signal: controller.signal,
+    });
+  } catch {
+    throw new WishBridgeError('network', DEFAULT_ERROR_MESSAGES.network);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abortFromCaller);
+  }
+
+  let result: { data?: TData; errors?: unknown[] };
+  try {
+    result = await res.json();
+  } catch {
+    throw new WishBridgeError('invalid_response', DEFAULT_ERROR_MESSAGES.unknown, res.status);
+  }
+
+  if (!res.ok || result.errors?.length || !result.data) {
+    throw new WishBridgeError('request_failed', DEFAULT_ERROR_MESSAGES.unknown, res.status);
+  }
+
+  return result.data;
+}
+
+/**
+ * Read the customer's wishlist metafield through the Storefront API.
+ * Rejects with a `WishBridgeError` when the request fails.
+ */
+export async function fetchCustomerWishlist(
+  config: WishBridgeConfig,
+  signal?: AbortSignal,
+): Promise<WishlistItem[]> {
+  return (await fetchCustomerWishlistWithTombstones(config, signal)).items;
+}
+
+/**
+ * Read the customer's wishlist metafield, with the removals recorded
+ * next to the items. Rejects with a `WishBridgeError` when the request
+ * fails.
+ */
+export async function fetchCustomerWishlistWithTombstones(
+  config: WishBridgeConfig,
+  signal?: AbortSignal,
+): Promise<{ items: WishlistItem[]; removed: WishlistTombstone[] }> {
+  if (!canReadCustomerWishlist(config)) {
+    throw new WishBridgeError('request_failed', DEFAULT_ERROR_MESSAGES.notConfigured);
+  }
+
+  const data = await queryStorefront<CustomerWishlistQueryData>(
+    config,
+    CUSTOMER_WISHLIST_QUERY,
+    { customerAccessToken: config.customerAccessToken },
+    signal,
+  );
+
+  if (!data.customer) {
+    throw new WishBridgeError('request_failed', DEFAULT_ERROR_MESSAGES.unknown);
+  }
+
+  return {
+    items: parseWishlistMetafield(data.customer.metafield?.value, data.customer.shards),
+    removed: decodeWishlistTombstones(data.customer.metafield?.value),
+  };
+}
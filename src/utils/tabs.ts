@@ -0,0 +1,141 @@
+/**
+ * Cross-tab wishlist sync
+ *
+ * Tabs announce wishlist changes over a BroadcastChannel, falling back to
+ * `storage` events where BroadcastChannel is missing. Guests announce
+ * that guest storage changed so other tabs re-read it; customers send the
+ * list returned by the backend.
+ */
+
+import { getScopedStorageKey } from './adapters.js';
+import { STORAGE_KEYS, TAB_SYNC_CHANNEL } from './constants.js';
+import { isStorageAvailable } from './storage.js';
+import { isValidWishlistItem } from './validation.js';
+
+import type { StorageScope } from './adapters.js';
+import type { WishlistItem } from '../types.js';
+
+/**
+ * Change announced to other tabs
+ */
+export type TabSyncMessage =
+  | {
+      /**
+       * Guest storage was written; re-read it
+       */
+      type: 'guest';
+    }
+  | {
+      /**
+       * The backend returned a new list for this customer
+       */
+      type: 'customer';
+      customerId: string;
+      items: WishlistItem[];
+    };
+
+export interface TabSync {
+  /**
+   * Announce a change to other tabs. The sending tab doesn't receive it.
+   */
+  post: (message: TabSyncMessage) => void;
+
+  /**
+   * Stop listening
+   */
+  close: () => void;
+}
+
+/**
+ * Validate a message from another tab, dropping invalid items
+ */
+export function parseTabSyncMessage(data: unknown): TabSyncMessage | null {
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+
+  const obj = data as Record<string, unknown>;
+
+  if (obj['type'] === 'guest') {
+    return { type: 'guest' };
+  }
+
+  if (
+    obj['type'] === 'customer' &&
+    typeof obj['customerId'] === 'string' &&
+    Array.isArray(obj['items'])
+  ) {
+    return {
+      type: 'customer',
+      customerId: obj['customerId'],
+      items: obj['items'].filter(isValidWishlistItem) as WishlistItem[],
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Listen for wishlist changes made in other tabs. With a `scope`, only
+ * tabs of the same shop and namespace hear each other.
+ */
+export function createTabSync(
+  onMessage: (message: TabSyncMessage) => void,
+  scope?: StorageScope,
+): TabSync {
+  const channelName = scope ? getScopedStorageKey(TAB_SYNC_CHANNEL, scope) : TAB_SYNC_CHANNEL;
+  const storageKey = scope
+    ? getScopedStorageKey(STORAGE_KEYS.tabSync, scope)
+    : STORAGE_KEYS.tabSync;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(channelName);
+    channel.onmessage = (event: MessageEvent) => {
+      const message = parseTabSyncMessage(event.data);
+      if (message) onMessage(message);
+    };
+
+    return {
+      post: (message) => {
+        try {
+          channel.postMessage(message);
+        } catch {
+          // Channel already closed
+        }
+      },
+      close: () => channel.close(),
+    };
+  }
+
+  if (!isStorageAvailable()) {
+    return { post: () => {}, close: () => {} };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== storageKey || !event.newValue) return;
+
+    try {
+      const message = parseTabSyncMessage(JSON.parse(event.newValue).message);
+      if (message) onMessage(message);
+    } catch {
+      // Ignore malformed values
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    post: (message) => {
+      try {
+        // `storage` only fires on changes, so make every write unique
+        window.localStorage.setItem(
+          storageKey,
+          JSON.stringify({ message, sentAt: `${Date.now()}:${Math.random()}` }),
+        );
+      } catch {
+        // Ignore errors
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+}
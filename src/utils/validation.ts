@@ -2,6 +2,10 @@
  * Validation utilities for @tempered/hydrogen-wishlist
  */
 
+import { MERGE_STRATEGIES } from './constants.js';
+
+import type { WishlistMergeStrategy, WishlistOperation } from '../types.js';
+
 /**
  * Validate Shopify product GID
  */
@@ -102,3 +106,72 @@ export function isValidWishlistItem(item: unknown): boolean {
 
   return true;
 }
+
+/**
+ * Validate a removal tombstone
+ */
+export function isValidWishlistTombstone(tombstone: unknown): boolean {
+  if (!tombstone || typeof tombstone !== 'object') {
+    return false;
+  }
+
+  const obj = tombstone as Record<string, unknown>;
+
+  if (!obj['productId'] || typeof obj['productId'] !== 'string') {
+    return false;
+  }
+
+  if (obj['variantId'] !== undefined && typeof obj['variantId'] !== 'string') {
+    return false;
+  }
+
+  return typeof obj['removedAt'] === 'string' && !Number.isNaN(Date.parse(obj['removedAt']));
+}
+
+/**
+ * Validate a built-in merge strategy name
+ */
+export function isValidMergeStrategy(strategy: unknown): strategy is WishlistMergeStrategy {
+  return MERGE_STRATEGIES.includes(strategy as WishlistMergeStrategy);
+}
+
+/**
+ * Validate a single add/remove operation
+ */
+export function isValidWishlistOperation(operation: unknown): boolean {
+  if (!operation || typeof operation !== 'object') {
+    return false;
+  }
+
+  const obj = operation as Record<string, unknown>;
+
+  if (obj['action'] === 'add') {
+    return isValidWishlistItem(obj['item']);
+  }
+
+  if (obj['action'] === 'remove') {
+    const item = obj['item'] as Record<string, unknown> | undefined;
+    return !!item && typeof item['productId'] === 'string' && !!item['productId'];
+  }
+
+  return false;
+}
+
+/**
+ * Extract the ordered operations from an update request body
+ * (single operation or batch). Returns null if any operation is invalid.
+ */
+export function parseUpdateOperations(body: unknown): WishlistOperation[] | null {
+  if (!body || typeof body !== 'object') {
+    return null;
+  }
+
+  const obj = body as Record<string, unknown>;
+  const operations = 'operations' in obj ? obj['operations'] : [obj];
+
+  if (!Array.isArray(operations) || !operations.every(isValidWishlistOperation)) {
+    return null;
+  }
+
+  return operations.map((op: WishlistOperation) => ({ action: op.action, item: op.item }));
+}